@@ -3,7 +3,28 @@ import { ConfigModule } from '@nestjs/config';
 import { TerminusModule } from '@nestjs/terminus';
 import { MergeController } from './merge/merge.controller';
 import { MergeService } from './merge/merge.service';
+import { MergeResultStoreService } from './merge/merge-result-store.service';
 import { OpenRouterService } from './openrouter/openrouter.service';
+import { ProviderRegistryService } from './providers/provider-registry.service';
+import { PricingService } from './usage/pricing.service';
+import { BudgetService } from './usage/budget.service';
+import { CircuitBreakerService } from './resilience/circuit-breaker.service';
+import { UpstreamSchedulerService } from './resilience/upstream-scheduler.service';
+import { LatencyStatsService } from './resilience/latency-stats.service';
+import { RequestCancellationService } from './common/context/request-cancellation.service';
+import { ModelCatalogService } from './catalog/model-catalog.service';
+import { ModelCatalogController } from './catalog/model-catalog.controller';
+import { SupportedModelsConstraint } from './catalog/supported-models.validator';
+import { PipelineLimitsConstraint } from './merge/pipeline-limits.validator';
+import { CassetteService } from './cassettes/cassette.service';
+import { AttachmentService } from './attachments/attachment.service';
+import { ToolRegistryService } from './tools/tool-registry.service';
+import { ToolRunnerService } from './tools/tool-runner.service';
+import { ToolController } from './tools/tool.controller';
+import { StructuredOutputService } from './structured/structured-output.service';
+import { PromptBudgetService } from './prompt-budget/prompt-budget.service';
+import { ResponseCacheService } from './cache/response-cache.service';
+import { CassetteController } from './cassettes/cassette.controller';
 import { JudgeService } from './judge/judge.service';
 import { LoggerService } from './logger/logger.service';
 import { DebateService } from './debate/debate.service';
@@ -15,6 +36,14 @@ import { ConfigService } from './config/config.service';
 import { JobStoreService } from './jobs/job-store.service';
 import { DeepResearchWorkerService } from './jobs/deep-research-worker.service';
 import { DeepResearchJobController } from './jobs/deep-research-job.controller';
+import { ConversationStoreService } from './conversations/conversation-store.service';
+import { ConversationService } from './conversations/conversation.service';
+import { ConsensusService } from './consensus/consensus.service';
+import { JudgePanelService } from './judge/judge-panel.service';
+import { ConversationController } from './conversations/conversation.controller';
+import { ModeRegistryService } from './modes/mode-registry.service';
+import { ModeController } from './modes/mode.controller';
+import { SupportedModeConstraint } from './modes/supported-mode.validator';
 
 @Module({
   imports: [
@@ -24,11 +53,40 @@ import { DeepResearchJobController } from './jobs/deep-research-job.controller';
     }),
     TerminusModule,
   ],
-  controllers: [MergeController, HealthController, DeepResearchJobController],
+  controllers: [
+    MergeController,
+    HealthController,
+    DeepResearchJobController,
+    ModelCatalogController,
+    CassetteController,
+    ToolController,
+    ConversationController,
+    ModeController,
+  ],
   providers: [
     MergeService,
+    MergeResultStoreService,
     OpenRouterService,
+    ProviderRegistryService,
+    PricingService,
+    BudgetService,
+    CircuitBreakerService,
+    UpstreamSchedulerService,
+    LatencyStatsService,
+    RequestCancellationService,
+    ModelCatalogService,
+    SupportedModelsConstraint,
+    PipelineLimitsConstraint,
+    CassetteService,
+    AttachmentService,
+    ToolRegistryService,
+    ToolRunnerService,
+    StructuredOutputService,
+    PromptBudgetService,
+    ResponseCacheService,
     JudgeService,
+    ConsensusService,
+    JudgePanelService,
     LoggerService,
     DebateService,
     ImageGenerationService,
@@ -37,6 +95,10 @@ import { DeepResearchJobController } from './jobs/deep-research-job.controller';
     ConfigService,
     JobStoreService,
     DeepResearchWorkerService,
+    ConversationStoreService,
+    ConversationService,
+    ModeRegistryService,
+    SupportedModeConstraint,
   ],
   exports: [ConfigService], // Export for use in other modules
 })
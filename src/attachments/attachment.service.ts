@@ -0,0 +1,222 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import axios from 'axios';
+import pdfParse from 'pdf-parse';
+import { AttachmentDto } from '../merge/dto/merge-request.dto';
+import { ATTACHMENT_LIMITS } from '../common/constants/app.constants';
+import { AttachmentsConfig, ConfigService } from '../config/config.service';
+import { ModelCatalogService } from '../catalog/model-catalog.service';
+import { OpenRouterService } from '../openrouter/openrouter.service';
+import { RequestContext } from '../common/context/request-context';
+import { ContentPart } from '../providers/llm-provider.interface';
+import { publicHostAgents } from '../common/utils/public-url';
+
+export interface PreparedDocument {
+  name: string;
+  text: string; // Extracted (and possibly truncated) document text
+}
+
+export interface PreparedImage {
+  name: string;
+  url: string; // http(s) or data: URL, as sent to vision models
+  description?: string; // Text stand-in for models without image input
+}
+
+export interface PreparedAttachments {
+  documents: PreparedDocument[];
+  images: PreparedImage[];
+}
+
+/**
+ * Turns request attachments into model input: documents become text, images are
+ * passed to vision-capable models as content parts and described for the rest.
+ */
+@Injectable()
+export class AttachmentService {
+  private readonly logger = new Logger(AttachmentService.name);
+  private readonly config: AttachmentsConfig;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly modelCatalogService: ModelCatalogService,
+    private readonly openRouterService: OpenRouterService,
+  ) {
+    this.config = this.configService.get('attachments');
+  }
+
+  /**
+   * Extract document text and collect the images (as sent to vision models).
+   */
+  async prepare(attachments: AttachmentDto[], context: RequestContext): Promise<PreparedAttachments> {
+    const prepared: PreparedAttachments = { documents: [], images: [] };
+
+    for (const [index, attachment] of attachments.entries()) {
+      const name = attachment.name || `attachment-${index + 1}`;
+      this.checkMimeType(attachment, name);
+
+      if (attachment.type === 'document') {
+        prepared.documents.push({ name, text: await this.extractText(attachment, name, context) });
+      } else {
+        prepared.images.push({
+          name,
+          url: attachment.data ? `data:${attachment.mimeType};base64,${attachment.data}` : attachment.url,
+        });
+      }
+    }
+
+    this.logger.log(
+      `[${context.requestId}] Prepared ${prepared.documents.length} documents and ${prepared.images.length} images`,
+    );
+    return prepared;
+  }
+
+  /**
+   * Describe the images with the configured vision model, for recipients that can't see them.
+   */
+  async describeImages(prepared: PreparedAttachments, context: RequestContext): Promise<void> {
+    await Promise.all(
+      prepared.images.map(async (image) => {
+        image.description = await this.describeImage(image, context);
+      }),
+    );
+  }
+
+  /**
+   * Vision support per the model catalog. Unknown models are treated as text-only.
+   */
+  supportsImages(model: string): boolean {
+    const catalogModel = this.modelCatalogService.getCachedModel(model);
+    return catalogModel ? this.modelCatalogService.hasCapability(catalogModel, 'image_input') : false;
+  }
+
+  /**
+   * User message content for one model: image parts for vision models,
+   * image descriptions inlined as text for everything else.
+   */
+  buildUserContent(text: string, prepared: PreparedAttachments | undefined, model: string): string | ContentPart[] {
+    if (!prepared || (prepared.documents.length === 0 && prepared.images.length === 0)) {
+      return text;
+    }
+
+    let message = text;
+    prepared.documents.forEach((document) => {
+      message += `\n\n--- Attached document: ${document.name} ---\n${document.text}\n--- End of ${document.name} ---`;
+    });
+
+    if (prepared.images.length === 0) {
+      return message;
+    }
+
+    if (this.supportsImages(model)) {
+      return [
+        { type: 'text', text: message },
+        ...prepared.images.map((image): ContentPart => ({ type: 'image_url', image_url: { url: image.url } })),
+      ];
+    }
+
+    prepared.images.forEach((image) => {
+      message += `\n\n--- Attached image: ${image.name} (description) ---\n${image.description || 'No description available.'}`;
+    });
+    return message;
+  }
+
+  /**
+   * Characters the attachments add to every prompt, for budget estimates
+   */
+  getTextLength(prepared: PreparedAttachments | undefined): number {
+    if (!prepared) {
+      return 0;
+    }
+    return (
+      prepared.documents.reduce((sum, document) => sum + document.text.length, 0) +
+      prepared.images.reduce((sum, image) => sum + (image.description?.length || 0), 0)
+    );
+  }
+
+  private checkMimeType(attachment: AttachmentDto, name: string): void {
+    const allowed: readonly string[] =
+      attachment.type === 'image' ? ATTACHMENT_LIMITS.IMAGE_MIME_TYPES : ATTACHMENT_LIMITS.DOCUMENT_MIME_TYPES;
+    if (!allowed.includes(attachment.mimeType)) {
+      throw new HttpException(
+        `Attachment ${name}: ${attachment.mimeType} is not a supported ${attachment.type} type (expected one of ${allowed.join(', ')})`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  private async extractText(attachment: AttachmentDto, name: string, context: RequestContext): Promise<string> {
+    const content = attachment.data
+      ? Buffer.from(attachment.data, 'base64')
+      : await this.fetch(attachment.url, name, context);
+
+    let text: string;
+    if (attachment.mimeType === 'application/pdf') {
+      try {
+        text = (await pdfParse(content)).text;
+      } catch (error) {
+        throw new HttpException(
+          `Attachment ${name}: could not read PDF (${error.message})`,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+    } else {
+      text = content.toString('utf-8');
+    }
+
+    text = text.trim();
+    if (text.length > this.config.max_document_chars) {
+      this.logger.warn(
+        `[${context.requestId}] Attachment ${name} truncated from ${text.length} to ${this.config.max_document_chars} characters`,
+      );
+      text = `${text.substring(0, this.config.max_document_chars)}\n[...truncated]`;
+    }
+    return text;
+  }
+
+  private async fetch(url: string, name: string, context: RequestContext): Promise<Buffer> {
+    try {
+      // Clients choose these URLs - keep them away from the internal network
+      const agents = await publicHostAgents(new URL(url));
+      const response = await axios.get<ArrayBuffer>(url, {
+        ...agents,
+        responseType: 'arraybuffer',
+        timeout: this.config.fetch_timeout_ms,
+        maxContentLength: this.config.max_fetch_bytes,
+        maxRedirects: 0, // A redirect could point at an internal host
+        signal: context.signal,
+      });
+      return Buffer.from(response.data);
+    } catch (error) {
+      throw new HttpException(
+        `Attachment ${name}: failed to fetch ${url} (${error.message})`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  private async describeImage(image: PreparedImage, context: RequestContext): Promise<string | undefined> {
+    try {
+      const result = await this.openRouterService.callModel(
+        this.config.description_model,
+        [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: 'Describe this image in detail for someone who cannot see it. Transcribe any visible text, code, tables or diagram labels exactly.',
+              },
+              { type: 'image_url', image_url: { url: image.url } },
+            ],
+          },
+        ],
+        this.config.description_timeout_ms,
+        { temperature: 0.2, context, stage: 'attachments' },
+      );
+      return result.response;
+    } catch (error) {
+      // Text-only models still get the question; they are told the image is unavailable
+      this.logger.warn(`[${context.requestId}] Failed to describe image ${image.name}: ${error.message}`);
+      return undefined;
+    }
+  }
+}
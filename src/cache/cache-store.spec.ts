@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileCacheStore, MemoryLruStore } from './cache-store';
+
+describe('MemoryLruStore', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('evicts the least recently used entry once full', () => {
+    const store = new MemoryLruStore(2);
+    store.set('a', 1, 1000);
+    store.set('b', 2, 1000);
+    expect(store.get('a')).toBe(1); // a is now the most recently used
+
+    store.set('c', 3, 1000);
+
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('a')).toBe(1);
+    expect(store.get('c')).toBe(3);
+    expect(store.size()).toBe(2);
+  });
+
+  it('overwrites an existing key without growing', () => {
+    const store = new MemoryLruStore(2);
+    store.set('a', 1, 1000);
+    store.set('a', 2, 1000);
+
+    expect(store.get('a')).toBe(2);
+    expect(store.size()).toBe(1);
+  });
+
+  it('drops expired entries when read', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const store = new MemoryLruStore(2);
+    store.set('a', 1, 100);
+
+    now.mockReturnValue(1100);
+
+    expect(store.get('a')).toBeUndefined();
+    expect(store.size()).toBe(0);
+  });
+});
+
+describe('FileCacheStore', () => {
+  let dir: string;
+
+  const files = () => fs.readdirSync(dir).filter((file) => file.endsWith('.json'));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-store-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads back what it wrote, across instances', () => {
+    new FileCacheStore(dir, 10).set('a', { answer: 42 }, 1000);
+
+    const reopened = new FileCacheStore(dir, 10);
+
+    expect(reopened.get('a')).toEqual({ answer: 42 });
+    expect(reopened.size()).toBe(1);
+  });
+
+  it('removes an expired entry when read', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const store = new FileCacheStore(dir, 10);
+    store.set('a', 1, 100);
+
+    now.mockReturnValue(1100);
+
+    expect(store.get('a')).toBeUndefined();
+    expect(files()).toEqual([]);
+    expect(store.size()).toBe(0);
+  });
+
+  it('sweeps expired entries, then the least recently used, once full', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const store = new FileCacheStore(dir, 10);
+    store.set('expired', 0, 100);
+    for (let i = 0; i < 9; i++) {
+      store.set(`key${i}`, i, 10000);
+      // mtime orders use: key0 is the oldest
+      fs.utimesSync(path.join(dir, `key${i}.json`), 1000 + i, 1000 + i);
+    }
+    now.mockReturnValue(2000);
+
+    store.set('key9', 9, 10000);
+
+    // Sweeps down to 90% of max_entries: the expired entry and the oldest live one go
+    expect(files().sort()).toEqual(
+      ['key1', 'key2', 'key3', 'key4', 'key5', 'key6', 'key7', 'key8', 'key9'].map((key) => `${key}.json`),
+    );
+    expect(store.size()).toBe(9);
+  });
+
+  it('counts an overwritten key once', () => {
+    const store = new FileCacheStore(dir, 10);
+    store.set('a', 1, 1000);
+    store.set('a', 2, 1000);
+
+    expect(store.get('a')).toBe(2);
+    expect(store.size()).toBe(1);
+  });
+
+  it('treats a corrupt entry as a miss', () => {
+    const store = new FileCacheStore(dir, 10);
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{"value":');
+
+    expect(store.get('broken')).toBeUndefined();
+  });
+});
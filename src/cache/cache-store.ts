@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Storage backend of the response cache. Keys are opaque hex digests.
+ */
+export interface CacheStore {
+  get<T>(key: string): T | undefined;
+  set<T>(key: string, value: T, ttlMs: number): void;
+  size(): number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * In-memory store evicting the least recently used entry once full.
+ */
+export class MemoryLruStore implements CacheStore {
+  // Map iteration order is insertion order, so re-inserting on access keeps the LRU at the front
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  set<T>(key: string, value: T, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
+
+// Once full, a write sweeps the file store down to this share of max_entries, so sweeps stay rare
+const FILE_SWEEP_TARGET = 0.9;
+
+/**
+ * One JSON file per entry, so cached answers survive restarts and can be shared
+ * by instances on the same volume. Reads refresh a file's mtime; once the store
+ * is full, a write removes the expired files and then the least recently used.
+ */
+export class FileCacheStore implements CacheStore {
+  private entryCount: number;
+
+  constructor(
+    private readonly dir: string,
+    private readonly maxEntries: number,
+  ) {
+    fs.mkdirSync(this.dir, { recursive: true });
+    this.entryCount = this.listFiles().length;
+  }
+
+  get<T>(key: string): T | undefined {
+    const filePath = this.getFilePath(key);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    try {
+      const entry: CacheEntry = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      if (entry.expiresAt <= Date.now()) {
+        this.remove(filePath);
+        return undefined;
+      }
+      const now = new Date();
+      fs.utimesSync(filePath, now, now);
+      return entry.value as T;
+    } catch {
+      // A half-written or corrupt entry is a miss
+      return undefined;
+    }
+  }
+
+  set<T>(key: string, value: T, ttlMs: number): void {
+    const filePath = this.getFilePath(key);
+    const isNew = !fs.existsSync(filePath);
+    const entry: CacheEntry = { value, expiresAt: Date.now() + ttlMs };
+    // Write then rename, so concurrent readers never see a partial file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(entry));
+    fs.renameSync(tempPath, filePath);
+
+    if (isNew && ++this.entryCount > this.maxEntries) {
+      this.sweep();
+    }
+  }
+
+  // Counted on writes and sweeps (other instances' writes show up at the next sweep)
+  size(): number {
+    return this.entryCount;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    const live: Array<{ filePath: string; usedAt: number }> = [];
+    this.listFiles().forEach((file) => {
+      const filePath = path.join(this.dir, file);
+      try {
+        const entry: CacheEntry = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        if (entry.expiresAt > now) {
+          live.push({ filePath, usedAt: fs.statSync(filePath).mtimeMs });
+          return;
+        }
+      } catch {
+        // Corrupt entries go with the expired ones
+      }
+      this.remove(filePath);
+    });
+
+    const target = Math.floor(this.maxEntries * FILE_SWEEP_TARGET);
+    live
+      .sort((a, b) => a.usedAt - b.usedAt)
+      .slice(0, Math.max(0, live.length - target))
+      .forEach(({ filePath }) => this.remove(filePath));
+    this.entryCount = this.listFiles().length;
+  }
+
+  private remove(filePath: string): void {
+    try {
+      fs.unlinkSync(filePath);
+      this.entryCount = Math.max(0, this.entryCount - 1);
+    } catch {
+      // Already removed (by another instance or sweep)
+    }
+  }
+
+  private listFiles(): string[] {
+    return fs.readdirSync(this.dir).filter((file) => file.endsWith('.json'));
+  }
+
+  private getFilePath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
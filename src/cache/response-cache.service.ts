@@ -0,0 +1,92 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { CacheConfig, ConfigService } from '../config/config.service';
+import { CacheStore, FileCacheStore, MemoryLruStore } from './cache-store';
+
+// Per-request control: 'bypass' neither reads nor writes, 'refresh' skips the read but stores the new answer
+export type CacheMode = 'use' | 'bypass' | 'refresh';
+
+// Individual model answers and complete merge results are cached separately
+export type CacheKind = 'model' | 'merge';
+
+export interface CacheStats {
+  enabled: boolean;
+  store: CacheConfig['store'];
+  entries: number;
+  model: { hits: number; misses: number };
+  merge: { hits: number; misses: number };
+}
+
+/**
+ * Cache of model answers and merge results keyed by everything that shapes the
+ * output (model, messages, sampling parameters, ...). Hit/miss counts are kept per kind.
+ */
+@Injectable()
+export class ResponseCacheService {
+  private readonly logger = new Logger(ResponseCacheService.name);
+  private readonly config: CacheConfig;
+  private readonly store: CacheStore | null;
+  private readonly stats: Pick<CacheStats, CacheKind> = {
+    model: { hits: 0, misses: 0 },
+    merge: { hits: 0, misses: 0 },
+  };
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = this.configService.get('cache');
+    this.store = this.config.enabled ? this.createStore() : null;
+  }
+
+  buildKey(kind: CacheKind, input: unknown): string {
+    return crypto.createHash('sha256').update(`${kind}:${JSON.stringify(input)}`).digest('hex');
+  }
+
+  get<T>(kind: CacheKind, key: string, mode: CacheMode = 'use'): T | undefined {
+    if (!this.store || mode !== 'use') {
+      return undefined;
+    }
+
+    const value = this.store.get<T>(key);
+    if (value === undefined) {
+      this.stats[kind].misses++;
+    } else {
+      this.stats[kind].hits++;
+    }
+    return value;
+  }
+
+  set<T>(kind: CacheKind, key: string, value: T, mode: CacheMode = 'use'): void {
+    if (!this.store || mode === 'bypass') {
+      return;
+    }
+
+    try {
+      this.store.set(key, value, this.config.ttl_ms);
+    } catch (error) {
+      // The cache is an optimization - a failed write must not fail the request
+      this.logger.warn(`Failed to cache ${kind} result: ${error.message}`);
+    }
+  }
+
+  getStats(): CacheStats {
+    return {
+      enabled: this.config.enabled,
+      store: this.config.store,
+      entries: this.store ? this.store.size() : 0,
+      model: { ...this.stats.model },
+      merge: { ...this.stats.merge },
+    };
+  }
+
+  private createStore(): CacheStore {
+    if (this.config.store === 'file') {
+      const dir = path.join(process.cwd(), this.config.dir);
+      this.logger.log(
+        `Response cache: file store at ${dir} (${this.config.max_entries} entries), TTL ${this.config.ttl_ms}ms`,
+      );
+      return new FileCacheStore(dir, this.config.max_entries);
+    }
+    this.logger.log(`Response cache: in-memory LRU (${this.config.max_entries} entries), TTL ${this.config.ttl_ms}ms`);
+    return new MemoryLruStore(this.config.max_entries);
+  }
+}
@@ -0,0 +1,24 @@
+import { Controller, Get, HttpCode, HttpStatus, Param, Post } from '@nestjs/common';
+import { CassetteService } from './cassette.service';
+import { Cassette } from './cassette';
+import { MergeService } from '../merge/merge.service';
+import { MergeResponseDto } from '../merge/dto/merge-response.dto';
+
+@Controller('api/v1/cassettes')
+export class CassetteController {
+  constructor(
+    private readonly cassetteService: CassetteService,
+    private readonly mergeService: MergeService,
+  ) {}
+
+  @Get(':requestId')
+  getCassette(@Param('requestId') requestId: string): Cassette {
+    return this.cassetteService.load(requestId);
+  }
+
+  @Post(':requestId/replay')
+  @HttpCode(HttpStatus.OK)
+  replay(@Param('requestId') requestId: string): Promise<MergeResponseDto> {
+    return this.mergeService.replay(requestId);
+  }
+}
@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from '../config/config.service';
+import { ChatCompletionRequest } from '../providers/llm-provider.interface';
+import { RateLimitedError } from '../providers/provider-errors';
+import { CassetteService } from './cassette.service';
+
+describe('CassetteService', () => {
+  let dir: string;
+  let service: CassetteService;
+
+  const request = (content: string): ChatCompletionRequest => ({
+    model: 'openai/gpt-4o-mini',
+    messages: [{ role: 'user', content }],
+    temperature: 0.7,
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassettes-'));
+    const configService = { get: () => ({ record: true, dir: path.relative(process.cwd(), dir) }) };
+    service = new CassetteService(configService as unknown as ConfigService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records nothing when recording is disabled', () => {
+    const configService = { get: () => ({ record: false, dir: path.relative(process.cwd(), dir) }) };
+    const disabled = new CassetteService(configService as unknown as ConfigService);
+
+    expect(disabled.isRecording()).toBe(false);
+    expect(
+      disabled.startRecording({ requestId: 'req-1', kind: 'merge', prompt: 'q', models: [], judgeModel: 'j' }),
+    ).toBeNull();
+  });
+
+  it('replays what was recorded, in recorded order per input', async () => {
+    const recorder = service.startRecording({
+      requestId: 'req-1',
+      kind: 'merge',
+      prompt: 'What is in the file?',
+      models: ['openai/gpt-4o-mini'],
+      judgeModel: 'openai/gpt-4o-mini',
+      attachments: { documents: [{ name: 'notes.txt', text: 'The word is pineapple.' }], images: [] },
+    });
+    recorder.record('query', undefined, 'openai/gpt-4o-mini', request('q'), { response: { content: 'first' } }, 0);
+    recorder.record('query', undefined, 'openai/gpt-4o-mini', request('q'), { response: { content: 'second' } }, 0);
+    recorder.record(
+      'judge',
+      undefined,
+      'openai/gpt-4o-mini',
+      request('judge'),
+      { error: new RateLimitedError('slow down', 1500) },
+      0,
+    );
+    recorder.recordTool('calculator', '{"expression":"1+1"}', { result: '2' }, 0);
+
+    const player = service.createPlayer('req-1');
+    expect(player.cassette.header.attachments.documents[0].text).toBe('The word is pineapple.');
+
+    const tokens: string[] = [];
+    await expect(player.play('openai/gpt-4o-mini', request('q'), (delta) => tokens.push(delta))).resolves.toEqual({
+      content: 'first',
+    });
+    await expect(player.play('openai/gpt-4o-mini', request('q'))).resolves.toEqual({ content: 'second' });
+    expect(tokens).toEqual(['first']);
+
+    const error = await player.play('openai/gpt-4o-mini', request('judge')).catch((caught) => caught);
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error.retryAfterMs).toBe(1500);
+
+    await expect(player.playTool('calculator', '{"expression":"1+1"}')).resolves.toBe('2');
+  });
+
+  it('fails a replayed call whose input differs from the recording', async () => {
+    const recorder = service.startRecording({ requestId: 'req-2', kind: 'merge', prompt: 'q', models: [], judgeModel: 'j' });
+    recorder.record('query', undefined, 'openai/gpt-4o-mini', request('q'), { response: { content: 'a' } }, 0);
+
+    const player = service.createPlayer('req-2');
+    await expect(player.play('openai/gpt-4o-mini', request('another question'))).rejects.toThrow('Replay diverged');
+    await expect(player.play('openai/gpt-4o-mini', request('q'))).resolves.toEqual({ content: 'a' });
+    await expect(player.play('openai/gpt-4o-mini', request('q'))).rejects.toThrow('Replay diverged');
+  });
+
+  it('returns 404 for unknown or unsafe request ids', () => {
+    expect(() => service.load('missing')).toThrow('No cassette recorded');
+    expect(() => service.load('../etc/passwd')).toThrow('No cassette recorded');
+  });
+});
@@ -0,0 +1,89 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigService, CassetteConfig } from '../config/config.service';
+import {
+  Cassette,
+  CassetteCall,
+  CassetteHeader,
+  CassettePlayer,
+  CassetteRecorder,
+  CassetteToolRun,
+} from './cassette';
+
+// Request ids become file names - anything else is rejected
+const SAFE_REQUEST_ID = /^[A-Za-z0-9_-]{1,100}$/;
+
+/**
+ * Creates recorders for new runs (when recording is enabled) and players for replays.
+ * Cassettes are JSON Lines files named `<request_id>.jsonl`.
+ */
+@Injectable()
+export class CassetteService {
+  private readonly logger = new Logger(CassetteService.name);
+  private readonly config: CassetteConfig;
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = this.configService.get('cassettes');
+  }
+
+  isRecording(): boolean {
+    return this.config.record;
+  }
+
+  /**
+   * Start a cassette for the run, or null when recording is disabled.
+   */
+  startRecording(header: Omit<CassetteHeader, 'type' | 'createdAt'>): CassetteRecorder | null {
+    if (!this.config.record || !SAFE_REQUEST_ID.test(header.requestId)) {
+      return null;
+    }
+
+    try {
+      fs.mkdirSync(this.getDirectory(), { recursive: true });
+      return new CassetteRecorder(this.getFilePath(header.requestId), {
+        type: 'header',
+        createdAt: new Date().toISOString(),
+        ...header,
+      });
+    } catch (error) {
+      // Recording is diagnostic only - never fail the request because of it
+      this.logger.error(`[${header.requestId}] Failed to start cassette: ${error.message}`);
+      return null;
+    }
+  }
+
+  load(requestId: string): Cassette {
+    const filePath = SAFE_REQUEST_ID.test(requestId) ? this.getFilePath(requestId) : null;
+    if (!filePath || !fs.existsSync(filePath)) {
+      throw new NotFoundException(`No cassette recorded for request ${requestId}`);
+    }
+
+    const lines = fs
+      .readFileSync(filePath, 'utf-8')
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line));
+    return {
+      header: lines[0] as CassetteHeader,
+      calls: lines.filter((line) => line.type === 'call') as CassetteCall[],
+      tools: lines.filter((line) => line.type === 'tool') as CassetteToolRun[],
+    };
+  }
+
+  exists(requestId: string): boolean {
+    return SAFE_REQUEST_ID.test(requestId) && fs.existsSync(this.getFilePath(requestId));
+  }
+
+  createPlayer(requestId: string): CassettePlayer {
+    return new CassettePlayer(this.load(requestId));
+  }
+
+  private getDirectory(): string {
+    return path.join(process.cwd(), this.config.dir);
+  }
+
+  private getFilePath(requestId: string): string {
+    return path.join(this.getDirectory(), `${requestId}.jsonl`);
+  }
+}
@@ -0,0 +1,234 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import {
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  TokenUsage,
+  ToolCall,
+} from '../providers/llm-provider.interface';
+import {
+  CancelledError,
+  ProviderError,
+  ProviderErrorCode,
+  RateLimitedError,
+} from '../providers/provider-errors';
+import { CallStage } from '../usage/usage-tracker';
+import { sleep } from '../common/utils/sleep';
+import { PipelineDto, QueryModelDto } from '../merge/dto/merge-request.dto';
+import { PreparedAttachments } from '../attachments/attachment.service';
+import { HistoryMessage } from '../conversations/conversation-history';
+
+// First line of a cassette: what is needed to re-run the pipeline
+export interface CassetteHeader {
+  type: 'header';
+  requestId: string;
+  kind: 'merge' | 'deep_research';
+  createdAt: string;
+  prompt: string;
+  mode?: string;
+  models: string[];
+  judgeModel: string;
+  modelInfo?: QueryModelDto[]; // Seats as requested, fallback chains included
+  budget?: { maxUsd?: number; maxTokens?: number };
+  attachments?: PreparedAttachments; // As prepared for the run (document text, image URLs), so replays fetch nothing
+  tools?: string[];
+  responseSchema?: Record<string, unknown>;
+  history?: HistoryMessage[]; // Earlier conversation turns sent before the prompt
+  pipeline?: PipelineDto; // Overrides the request set
+  judgePanel?: string[];
+}
+
+// One upstream call, in the order the calls completed
+export interface CassetteCall {
+  type: 'call';
+  seq: number;
+  stage: CallStage;
+  round?: number;
+  model: string; // Model id as requested (including any routing prefix)
+  request: Pick<ChatCompletionRequest, 'messages' | 'temperature' | 'max_tokens'>;
+  response: { content: string; usage?: TokenUsage; toolCalls?: ToolCall[] } | null;
+  error: { code: ProviderErrorCode | 'unknown'; message: string; retryAfterMs?: number } | null;
+  latency_ms: number;
+}
+
+// One server-side tool execution; replays serve the recorded output instead of re-running it
+export interface CassetteToolRun {
+  type: 'tool';
+  seq: number;
+  tool: string;
+  arguments: string; // JSON-encoded, as requested by the model
+  result: string | null;
+  error: string | null;
+  latency_ms: number;
+}
+
+export interface Cassette {
+  header: CassetteHeader;
+  calls: CassetteCall[];
+  tools: CassetteToolRun[];
+}
+
+/**
+ * Identity of a call: replay matches on what was sent, not on timing.
+ */
+function callKey(
+  model: string,
+  request: Pick<ChatCompletionRequest, 'messages' | 'temperature' | 'max_tokens'>,
+): string {
+  return crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify([model, request.messages, request.temperature ?? null, request.max_tokens ?? null]),
+    )
+    .digest('hex');
+}
+
+/**
+ * Appends every upstream call of one request to its cassette file (JSON Lines).
+ */
+export class CassetteRecorder {
+  private seq = 0;
+
+  constructor(
+    private readonly filePath: string,
+    header: CassetteHeader,
+  ) {
+    fs.writeFileSync(this.filePath, `${JSON.stringify(header)}\n`);
+  }
+
+  record(
+    stage: CallStage,
+    round: number | undefined,
+    model: string,
+    request: ChatCompletionRequest,
+    outcome: { response: ChatCompletionResult } | { error: unknown },
+    latencyMs: number,
+  ): void {
+    // Cancelled calls never completed upstream - there is nothing to replay
+    if ('error' in outcome && outcome.error instanceof CancelledError) {
+      return;
+    }
+
+    const call: CassetteCall = {
+      type: 'call',
+      seq: ++this.seq,
+      stage,
+      ...(round !== undefined && { round }),
+      model,
+      request: {
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.max_tokens,
+      },
+      response:
+        'response' in outcome
+          ? {
+              content: outcome.response.content,
+              usage: outcome.response.usage,
+              ...(outcome.response.toolCalls && { toolCalls: outcome.response.toolCalls }),
+            }
+          : null,
+      error: 'error' in outcome ? this.describeError(outcome.error) : null,
+      latency_ms: latencyMs,
+    };
+    fs.appendFileSync(this.filePath, `${JSON.stringify(call)}\n`);
+  }
+
+  recordTool(tool: string, args: string, outcome: { result: string } | { error: string }, latencyMs: number): void {
+    const run: CassetteToolRun = {
+      type: 'tool',
+      seq: ++this.seq,
+      tool,
+      arguments: args,
+      result: 'result' in outcome ? outcome.result : null,
+      error: 'error' in outcome ? outcome.error : null,
+      latency_ms: latencyMs,
+    };
+    fs.appendFileSync(this.filePath, `${JSON.stringify(run)}\n`);
+  }
+
+  private describeError(error: unknown): CassetteCall['error'] {
+    if (error instanceof ProviderError) {
+      return {
+        code: error.code,
+        message: error.message,
+        ...(error instanceof RateLimitedError && { retryAfterMs: error.retryAfterMs }),
+      };
+    }
+    return { code: 'unknown', message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Serves recorded responses in place of upstream calls. Identical calls are
+ * served in recorded order, and recorded latencies are kept so answers finish
+ * in the same order as in the original run.
+ */
+export class CassettePlayer {
+  private readonly queues = new Map<string, CassetteCall[]>();
+  private readonly toolQueues = new Map<string, CassetteToolRun[]>();
+
+  constructor(readonly cassette: Cassette) {
+    cassette.calls.forEach((call) => {
+      const key = callKey(call.model, call.request);
+      this.queues.set(key, [...(this.queues.get(key) || []), call]);
+    });
+    cassette.tools.forEach((run) => {
+      const key = `${run.tool}:${run.arguments}`;
+      this.toolQueues.set(key, [...(this.toolQueues.get(key) || []), run]);
+    });
+  }
+
+  async play(
+    model: string,
+    request: ChatCompletionRequest,
+    onToken?: (delta: string) => void,
+    signal?: AbortSignal,
+  ): Promise<ChatCompletionResult> {
+    const call = this.queues.get(callKey(model, request))?.shift();
+    if (!call) {
+      throw new Error(
+        `Replay diverged: cassette ${this.cassette.header.requestId} has no recorded call to ${model} with this input`,
+      );
+    }
+
+    await sleep(call.latency_ms, signal);
+
+    if (call.error) {
+      if (call.error.code === 'rate_limited') {
+        throw new RateLimitedError(call.error.message, call.error.retryAfterMs);
+      }
+      if (call.error.code === 'unknown') {
+        throw new Error(call.error.message);
+      }
+      throw new ProviderError(call.error.code, call.error.message);
+    }
+
+    if (onToken && call.response.content) {
+      onToken(call.response.content);
+    }
+    return {
+      content: call.response.content,
+      usage: call.response.usage,
+      ...(call.response.toolCalls && { toolCalls: call.response.toolCalls }),
+    };
+  }
+
+  /**
+   * Recorded output of a tool run; throws the recorded error message when the run failed.
+   */
+  async playTool(tool: string, args: string, signal?: AbortSignal): Promise<string> {
+    const run = this.toolQueues.get(`${tool}:${args}`)?.shift();
+    if (!run) {
+      throw new Error(
+        `Replay diverged: cassette ${this.cassette.header.requestId} has no recorded ${tool} run with these arguments`,
+      );
+    }
+
+    await sleep(run.latency_ms, signal);
+    if (run.error !== null) {
+      throw new Error(run.error);
+    }
+    return run.result;
+  }
+}
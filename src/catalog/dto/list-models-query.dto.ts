@@ -0,0 +1,21 @@
+import { IsIn, IsInt, IsOptional, IsString, Min } from 'class-validator';
+import { ModelCapability } from '../model-catalog.service';
+
+export class ListModelsQueryDto {
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @IsOptional()
+  @IsString()
+  provider?: string;
+
+  @IsOptional()
+  @IsIn(['text', 'image_input', 'image_output', 'tools', 'json_mode'])
+  capability?: ModelCapability;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  minContextLength?: number;
+}
@@ -0,0 +1,16 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { CatalogModel, ModelCatalogService } from './model-catalog.service';
+import { ListModelsQueryDto } from './dto/list-models-query.dto';
+
+@Controller('api/v1/models')
+export class ModelCatalogController {
+  constructor(private readonly modelCatalogService: ModelCatalogService) {}
+
+  @Get()
+  async listModels(
+    @Query() query: ListModelsQueryDto,
+  ): Promise<{ models: CatalogModel[]; total: number }> {
+    const models = await this.modelCatalogService.list(query);
+    return { models, total: models.length };
+  }
+}
@@ -0,0 +1,211 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigService, ModelCatalogConfig, ModelPricing } from '../config/config.service';
+import { ProviderRegistryService } from '../providers/provider-registry.service';
+import { ProviderModelInfo } from '../providers/llm-provider.interface';
+
+export type ModelCapability = 'text' | 'image_input' | 'image_output' | 'tools' | 'json_mode';
+
+export interface CatalogModel {
+  id: string; // Model id as used in requests (including any routing prefix)
+  name: string;
+  contextLength: number | null;
+  inputModalities: string[];
+  outputModalities: string[];
+  pricing: ModelPricing | null; // USD per one million tokens
+  supportsTools: boolean;
+  supportsJsonMode: boolean;
+  source: 'provider' | 'file';
+}
+
+export interface ModelCatalogFilter {
+  search?: string; // Case-insensitive match on id or name
+  provider?: string; // Id prefix, e.g. 'openai' or 'ollama'
+  capability?: ModelCapability;
+  minContextLength?: number;
+}
+
+// Entry of the local catalog file (snake_case like config.json)
+interface CatalogFileEntry {
+  id: string;
+  name?: string;
+  context_length?: number;
+  input_modalities?: string[];
+  output_modalities?: string[];
+  pricing?: ModelPricing;
+  supports_tools?: boolean;
+  supports_json_mode?: boolean;
+}
+
+/**
+ * Model metadata (context length, modalities, pricing, tool/JSON support) merged
+ * from provider listings (OpenRouter's /models) and the local catalog file.
+ */
+@Injectable()
+export class ModelCatalogService implements OnModuleInit {
+  private readonly logger = new Logger(ModelCatalogService.name);
+  private readonly config: ModelCatalogConfig;
+  private models = new Map<string, CatalogModel>();
+  private listedPrefixes = new Set<string>(); // Routes whose full model list is known
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly providerRegistry: ProviderRegistryService,
+  ) {
+    this.config = this.configService.get('model_catalog');
+  }
+
+  onModuleInit(): void {
+    // Warm the cache in the background - startup must not wait on the network
+    void this.getModels();
+  }
+
+  async getModels(): Promise<CatalogModel[]> {
+    if (Date.now() - this.loadedAt > this.config.refresh_interval_ms) {
+      this.loading = this.loading || this.refresh().finally(() => (this.loading = null));
+      // Serve a stale catalog while refreshing; only the first load has to wait
+      if (this.loadedAt === 0) {
+        await this.loading;
+      }
+    }
+    return Array.from(this.models.values());
+  }
+
+  async list(filter: ModelCatalogFilter = {}): Promise<CatalogModel[]> {
+    const search = filter.search?.toLowerCase();
+    return (await this.getModels())
+      .filter(
+        (model) =>
+          (!search ||
+            model.id.toLowerCase().includes(search) ||
+            model.name.toLowerCase().includes(search)) &&
+          (!filter.provider || model.id.startsWith(`${filter.provider}/`)) &&
+          (!filter.capability || this.hasCapability(model, filter.capability)) &&
+          (!filter.minContextLength || (model.contextLength ?? 0) >= filter.minContextLength),
+      )
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Problems preventing the given models from serving the capability, one message per model.
+   * Models routed to a provider whose listing is unavailable are accepted - they can't be checked.
+   */
+  async findUnsupported(modelIds: string[], capability: ModelCapability): Promise<string[]> {
+    await this.getModels();
+
+    const problems: string[] = [];
+    for (const modelId of modelIds) {
+      const model = this.models.get(modelId);
+      if (!model) {
+        if (this.listedPrefixes.has(this.providerRegistry.getRoutePrefix(modelId))) {
+          problems.push(`Unknown model: ${modelId}`);
+        }
+      } else if (!this.hasCapability(model, capability)) {
+        problems.push(`Model ${modelId} does not support ${capability.replace('_', ' ')}`);
+      }
+    }
+    return problems;
+  }
+
+  /**
+   * Cached lookup for synchronous callers (e.g. cost accounting); never triggers a fetch.
+   */
+  getCachedModel(modelId: string): CatalogModel | null {
+    return this.models.get(modelId) || null;
+  }
+
+  hasCapability(model: CatalogModel, capability: ModelCapability): boolean {
+    switch (capability) {
+      case 'text':
+        return model.outputModalities.includes('text');
+      case 'image_input':
+        return model.inputModalities.includes('image');
+      case 'image_output':
+        return model.outputModalities.includes('image');
+      case 'tools':
+        return model.supportsTools;
+      case 'json_mode':
+        return model.supportsJsonMode;
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    const models = new Map<string, CatalogModel>();
+    const listedPrefixes = new Set<string>();
+
+    for (const [prefix, provider] of this.providerRegistry.getListableProviders()) {
+      try {
+        const listed = await provider.listModels!(this.config.fetch_timeout_ms);
+        listed.forEach((info) => {
+          const model = this.fromProviderModel(prefix ? `${prefix}/${info.id}` : info.id, info);
+          models.set(model.id, model);
+        });
+        listedPrefixes.add(prefix);
+      } catch (error) {
+        this.logger.warn(`Failed to list ${provider.name} models: ${error.message}`);
+        // Keep the previous listing of this provider rather than forgetting its models
+        if (this.listedPrefixes.has(prefix)) {
+          this.models.forEach((model, id) => {
+            if (model.source === 'provider' && this.providerRegistry.getRoutePrefix(id) === prefix) {
+              models.set(id, model);
+            }
+          });
+          listedPrefixes.add(prefix);
+        }
+      }
+    }
+
+    // Local entries override provider metadata (e.g. corrected prices, self-hosted models)
+    this.loadCatalogFile().forEach((model) => models.set(model.id, model));
+
+    this.models = models;
+    this.listedPrefixes = listedPrefixes;
+    this.loadedAt = Date.now();
+    this.logger.log(`Model catalog loaded: ${models.size} models`);
+  }
+
+  private loadCatalogFile(): CatalogModel[] {
+    const catalogPath = path.join(process.cwd(), this.config.file);
+    if (!fs.existsSync(catalogPath)) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(catalogPath, 'utf-8'));
+      const entries: CatalogFileEntry[] = parsed.models || [];
+      return entries.map((entry) => ({
+        id: entry.id,
+        name: entry.name || entry.id,
+        contextLength: entry.context_length ?? null,
+        inputModalities: entry.input_modalities || ['text'],
+        outputModalities: entry.output_modalities || ['text'],
+        pricing: entry.pricing || null,
+        supportsTools: entry.supports_tools === true,
+        supportsJsonMode: entry.supports_json_mode === true,
+        source: 'file',
+      }));
+    } catch (error) {
+      this.logger.error(`Failed to load ${this.config.file}`, error);
+      return [];
+    }
+  }
+
+  private fromProviderModel(id: string, info: ProviderModelInfo): CatalogModel {
+    return {
+      id,
+      name: info.name || id,
+      contextLength: info.contextLength ?? null,
+      inputModalities: info.inputModalities,
+      outputModalities: info.outputModalities,
+      pricing: info.pricing || null,
+      supportsTools: info.supportedParameters.includes('tools'),
+      supportsJsonMode:
+        info.supportedParameters.includes('response_format') ||
+        info.supportedParameters.includes('structured_outputs'),
+      source: 'provider',
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ValidationArguments,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator';
+import { ConfigService } from '../config/config.service';
+import { ModelCapability, ModelCatalogService } from './model-catalog.service';
+
+/**
+ * Checks `{ id }` model objects (or arrays of them) against the model catalog, fallbacks included.
+ * Query models of image-generation requests must output images; everything else must output text.
+ * Needs class-validator's container to be Nest's (see useContainer in main.ts).
+ */
+@ValidatorConstraint({ name: 'supportedModels', async: true })
+@Injectable()
+export class SupportedModelsConstraint implements ValidatorConstraintInterface {
+  private readonly problems = new WeakMap<object, Map<string, string[]>>();
+
+  constructor(
+    private readonly modelCatalogService: ModelCatalogService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async validate(value: unknown, args: ValidationArguments): Promise<boolean> {
+    if (!this.configService.get('model_catalog').validate_requests) {
+      return true;
+    }
+
+    const models = Array.isArray(value) ? value : [value];
+    const modelIds = models
+      .flatMap((model) => [model?.id, ...(Array.isArray(model?.fallbacks) ? model.fallbacks : [])])
+      .filter((id): id is string => typeof id === 'string' && id.length > 0);
+
+    const problems = await this.modelCatalogService.findUnsupported(
+      modelIds,
+      this.getRequiredCapability(args),
+    );
+    if (problems.length === 0) {
+      return true;
+    }
+
+    const byProperty = this.problems.get(args.object) || new Map<string, string[]>();
+    byProperty.set(args.property, problems);
+    this.problems.set(args.object, byProperty);
+    return false;
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    const problems = this.problems.get(args.object)?.get(args.property);
+    return problems ? problems.join('; ') : `${args.property} contains unsupported models`;
+  }
+
+  private getRequiredCapability(args: ValidationArguments): ModelCapability {
+    const mode = (args.object as { mode?: string }).mode;
+    return args.property === 'queryModels' && mode === 'image-generation' ? 'image_output' : 'text';
+  }
+}
@@ -11,6 +11,27 @@ export const APP_CONSTANTS = {
   MIN_MODELS_REQUIRED: 1,
 } as const;
 
+// Rough sizes used to estimate a request's cost before any model is called
+export const BUDGET_ESTIMATES = {
+  CHARS_PER_TOKEN: 4,
+  ANSWER_TOKENS: 800,
+  JUDGE_FEEDBACK_TOKENS: 150,
+  JUDGE_ANSWER_TOKENS: 1500,
+} as const;
+
+// Backoff for retried model calls (see resilience/retry-policy.ts)
+export const RETRY_POLICY = {
+  BASE_DELAY_MS: 1000,
+  MAX_DELAY_MS: 8000,
+  MAX_RETRY_AFTER_MS: 15000, // Longer Retry-After waits fail fast instead of stalling the request
+} as const;
+
+export const ATTACHMENT_LIMITS = {
+  MAX_ATTACHMENTS: 5,
+  IMAGE_MIME_TYPES: ['image/png', 'image/jpeg', 'image/webp', 'image/gif'],
+  DOCUMENT_MIME_TYPES: ['text/plain', 'text/markdown', 'application/pdf'],
+} as const;
+
 export const ERROR_MESSAGES = {
   PROMPT_REQUIRED: 'Prompt is required and cannot be empty',
   PROMPT_TOO_LONG: (maxLength: number) => `Prompt cannot exceed ${maxLength} characters`,
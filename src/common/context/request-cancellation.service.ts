@@ -0,0 +1,39 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+/**
+ * Tracks the abort controllers of in-flight query requests so they can be
+ * cancelled by request id (explicit cancel) or when the client disconnects.
+ */
+@Injectable()
+export class RequestCancellationService {
+  private readonly logger = new Logger(RequestCancellationService.name);
+  private readonly controllers = new Map<string, AbortController>();
+
+  isActive(requestId: string): boolean {
+    return this.controllers.has(requestId);
+  }
+
+  register(requestId: string): AbortSignal {
+    const controller = new AbortController();
+    this.controllers.set(requestId, controller);
+    return controller.signal;
+  }
+
+  /**
+   * Abort every outstanding upstream call of the request.
+   * Returns false when the request is unknown or already finished.
+   */
+  cancel(requestId: string, reason: string): boolean {
+    const controller = this.controllers.get(requestId);
+    if (!controller || controller.signal.aborted) {
+      return false;
+    }
+    this.logger.warn(`[${requestId}] Cancelling request: ${reason}`);
+    controller.abort();
+    return true;
+  }
+
+  release(requestId: string): void {
+    this.controllers.delete(requestId);
+  }
+}
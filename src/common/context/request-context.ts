@@ -0,0 +1,22 @@
+import { UsageTracker } from '../../usage/usage-tracker';
+import { BudgetGuard } from '../../usage/budget-guard';
+import { CassettePlayer, CassetteRecorder } from '../../cassettes/cassette';
+import { CacheMode } from '../../cache/response-cache.service';
+
+// Interactive queries are dispatched upstream ahead of background (deep research) work
+export type RequestPriority = 'interactive' | 'background';
+
+/**
+ * Per-request state threaded from the entry point (query, deep research job)
+ * down to every model call made on its behalf.
+ */
+export interface RequestContext {
+  requestId: string;
+  usage: UsageTracker;
+  budget?: BudgetGuard; // Present when the caller set a cost/token budget
+  signal?: AbortSignal; // Aborted when the client disconnects or cancels the request
+  recorder?: CassetteRecorder; // Set when upstream traffic is being recorded
+  replay?: CassettePlayer; // Set when recorded responses are served instead of upstream calls
+  cacheMode?: CacheMode; // Response cache control for the request's model calls (default 'use')
+  priority?: RequestPriority; // Upstream scheduling priority (default 'interactive')
+}
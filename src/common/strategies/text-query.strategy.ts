@@ -19,17 +19,9 @@ export class TextQueryStrategy implements QueryStrategy {
       queryModels.map((m) => [m.id, { name: m.name, provider: m.provider }]),
     );
 
-    // Map mode to internal format
-    const internalMode =
-      mode === 'technical'
-        ? 'coding'
-        : mode === 'general' || mode === 'creative' || !mode
-          ? 'general'
-          : 'general';
-
     const internalResult = await this.mergeService.merge(
       prompt,
-      internalMode,
+      mode,
       modelIds,
       judgeModel.id,
       false,
@@ -46,6 +38,7 @@ export class TextQueryStrategy implements QueryStrategy {
           latency: answer.latency_ms / 1000,
           content: answer.answer || '',
           ...(answer.error && { errorMessage: answer.error }),
+          ...(answer.error_code && { errorCode: answer.error_code }),
         };
       },
     );
@@ -0,0 +1,43 @@
+import { randomSeed, shuffledOrder } from './answer-order';
+
+describe('shuffledOrder', () => {
+  it('is a permutation of the answer indices', () => {
+    for (let seed = 0; seed < 50; seed++) {
+      expect([...shuffledOrder(7, seed)].sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    }
+  });
+
+  it('gives the same order for the same seed', () => {
+    expect(shuffledOrder(5, 42)).toEqual(shuffledOrder(5, 42));
+  });
+
+  it('gives different orders for different seeds', () => {
+    const orders = new Set(Array.from({ length: 20 }, (_, seed) => shuffledOrder(5, seed).join(',')));
+
+    expect(orders.size).toBeGreaterThan(10);
+  });
+
+  it('puts every answer first about equally often', () => {
+    const firsts = [0, 0, 0];
+    for (let seed = 0; seed < 3000; seed++) {
+      firsts[shuffledOrder(3, seed)[0]]++;
+    }
+
+    firsts.forEach((count) => expect(count).toBeGreaterThan(850));
+  });
+
+  it('handles empty and single-answer councils', () => {
+    expect(shuffledOrder(0, 1)).toEqual([]);
+    expect(shuffledOrder(1, 1)).toEqual([0]);
+  });
+});
+
+describe('randomSeed', () => {
+  it('draws a non-negative 31-bit integer', () => {
+    const seed = randomSeed();
+
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(2 ** 31);
+  });
+});
@@ -0,0 +1,30 @@
+import * as crypto from 'crypto';
+
+/**
+ * Seed for shuffling answer order when the request doesn't pick one.
+ */
+export function randomSeed(): number {
+  return crypto.randomInt(2 ** 31);
+}
+
+/**
+ * Positions of `count` answers shuffled with `seed`: position i shows answer
+ * order[i]. The same seed always gives the same order (mulberry32 + Fisher-Yates).
+ */
+export function shuffledOrder(count: number, seed: number): number[] {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const order = Array.from({ length: count }, (_, index) => index);
+  for (let i = count - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
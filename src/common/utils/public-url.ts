@@ -0,0 +1,58 @@
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+
+/**
+ * Check that a client- or model-supplied URL is http(s) and that its host
+ * resolves outside the internal network. Returns the checked address.
+ */
+async function resolvePublicHost(url: URL): Promise<string> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Only http and https URLs can be fetched');
+  }
+  const { address } = await dns.promises.lookup(url.hostname);
+  if (isPrivateAddress(address)) {
+    throw new Error(`Refusing to fetch ${url.hostname}: private network address`);
+  }
+  return address;
+}
+
+/**
+ * Check the URL's host and return agents that connect to the checked address,
+ * so a second DNS answer (rebinding) can't send the request elsewhere.
+ */
+export async function publicHostAgents(url: URL): Promise<{ httpAgent: http.Agent; httpsAgent: https.Agent }> {
+  const address = await resolvePublicHost(url);
+  const family = net.isIPv6(address) ? 6 : 4;
+  const lookup: net.LookupFunction = (_hostname, options, callback) =>
+    options.all ? callback(null, [{ address, family }]) : callback(null, address, family);
+  return { httpAgent: new http.Agent({ lookup }), httpsAgent: new https.Agent({ lookup }) };
+}
+
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv6(address)) {
+    const normalized = address.toLowerCase();
+    if (normalized.startsWith('::ffff:')) {
+      return isPrivateAddress(normalized.substring(7));
+    }
+    return (
+      normalized === '::1' ||
+      normalized === '::' ||
+      normalized.startsWith('fc') ||
+      normalized.startsWith('fd') ||
+      normalized.startsWith('fe80')
+    );
+  }
+
+  const [a, b] = address.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 100 && b >= 64 && b <= 127)
+  );
+}
@@ -2,6 +2,175 @@ import { Injectable, Logger } from '@nestjs/common';
 import * as fs from 'fs';
 import * as path from 'path';
 
+export interface ProviderConfig {
+  prefix: string; // Model id prefix routed to this provider, e.g. 'ollama' for 'ollama/llama3'
+  type: 'openrouter' | 'openai-compatible' | 'ollama';
+  base_url: string;
+  api_key_env?: string; // Name of the environment variable holding the API key
+}
+
+// USD per one million tokens
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+export interface CircuitBreakerConfig {
+  enabled: boolean;
+  error_threshold_percentage: number; // Failure rate (within the rolling window) that opens the circuit
+  volume_threshold: number; // Minimum calls in the window before the circuit may open
+  rolling_window_ms: number;
+  reset_timeout_ms: number; // How long the circuit stays open before a half-open probe
+}
+
+export interface ModelCatalogConfig {
+  file: string; // Local catalog (relative to the working directory), used alongside provider listings
+  refresh_interval_ms: number; // How long a fetched provider listing is cached
+  fetch_timeout_ms: number;
+  validate_requests: boolean; // Reject unknown or incapable models before any model is called
+}
+
+export interface SimulatedModelConfig {
+  latency_ms?: number;
+  response?: string; // Template with {{model}}, {{prompt}}, {{hash}} and {{tool_results}} placeholders
+  failure?: 'timeout' | 'rate_limited' | 'empty' | 'upstream_error' | 'auth' | 'context_length_exceeded';
+  failure_count?: number; // Only the first N calls fail (default: every call)
+  retry_after_seconds?: number; // Retry-After reported with rate_limited failures
+  // Tool requested on the first turn when the tool is offered; the answer follows once results are in
+  tool_call?: { name: string; arguments: Record<string, unknown> };
+}
+
+export interface SimulationConfig {
+  enabled: boolean;
+  prefix: string; // Model ids under this prefix (e.g. 'sim/fast') are simulated
+  replace_openrouter: boolean; // Simulate every un-prefixed model too - no API key needed
+  latency_ms: number; // Default latency of a simulated call
+  response?: string; // Default response template
+  models: Record<string, SimulatedModelConfig>; // Keyed by model id
+}
+
+export interface CassetteConfig {
+  record: boolean; // Write every upstream call of each run to a cassette file
+  dir: string; // Relative to the working directory
+}
+
+export interface AttachmentsConfig {
+  max_body_size: string; // JSON body limit for requests carrying base64 attachments, e.g. '25mb'
+  max_document_chars: number; // Extracted text per document is truncated to this length
+  max_fetch_bytes: number; // Size limit for documents fetched by URL
+  fetch_timeout_ms: number;
+  description_model: string; // Vision model describing images for text-only models
+  description_timeout_ms: number;
+}
+
+export interface ToolsConfig {
+  max_steps: number; // Tool-calling rounds per model call before a plain answer is forced
+  timeout_ms: number; // Per tool execution
+  max_result_chars: number; // Tool output is truncated to this length before it reaches the model
+  fetch_max_bytes: number; // Size limit for the fetch_url tool
+  search_max_results: number; // Results returned by the web_search tool
+}
+
+export interface CacheConfig {
+  enabled: boolean;
+  store: 'memory' | 'file';
+  max_entries: number; // Capacity of either store (least recently used entries go first)
+  ttl_ms: number;
+  dir: string; // Directory of the file store, relative to the working directory
+}
+
+export interface SchedulerLimits {
+  max_concurrent?: number;
+  requests_per_minute?: number; // 0 disables the rate limit
+}
+
+export interface SchedulerConfig {
+  enabled: boolean;
+  max_concurrent_per_provider: number;
+  max_concurrent_per_model: number;
+  requests_per_minute: number; // Per provider; 0 disables the rate limit
+  max_queue_ms: number; // Calls waiting longer fail with errorCode 'queue_timeout'
+  log_wait_over_ms: number; // Queue waits at least this long are logged
+  providers: Record<string, SchedulerLimits>; // Keyed by routing prefix, 'default' for OpenRouter
+  models: Record<string, Pick<SchedulerLimits, 'max_concurrent'>>; // Keyed by model id
+}
+
+export interface HedgingConfig {
+  enabled: boolean;
+  percentile: number; // A seat with `hedge: true` is duplicated once its call outlasts this latency percentile
+  min_samples: number; // Answers of a model needed before its calls are hedged
+  window: number; // Recent answers per model the percentile is computed over
+  min_delay_ms: number; // Floor of the hedge delay
+}
+
+export interface PromptBudgetConfig {
+  default_context_window: number; // Tokens, for models without a known context length
+  context_windows: Record<string, number>; // Overrides keyed by model id
+  window_usage_ratio: number; // Share of the window a prompt may fill (margin for tokenizer differences)
+  min_section_tokens: number; // Floor per summarized section, as long as the window has room left
+  summary_model: string; // Condenses sections that don't fit
+  summary_timeout_ms: number;
+}
+
+export interface ConversationsConfig {
+  max_conversations: number; // Least recently used conversations are dropped beyond this
+  ttl_ms: number; // Conversations idle for longer are dropped
+  max_turns: number;
+  max_history_tokens: number; // History sent with each turn; older turns are summarized beyond this
+  keep_recent_turns: number; // Latest turns always sent verbatim, never summarized
+  summary_tokens: number; // Length of the summary of older turns
+}
+
+export interface ModesConfig {
+  file: string; // Custom mode profiles (relative to the working directory), used alongside the built-in modes
+}
+
+// Upper bounds for the `pipeline` overrides a request may set
+export interface PipelineLimitsConfig {
+  max_debate_rounds: number;
+  max_timeout_ms: number; // Applies to every timeout override
+  max_tokens: number; // Longest council answer a request may ask for
+}
+
+// Claim-level agreement analysis of the council's answers, shown to the judge
+export interface ConsensusConfig {
+  enabled: boolean; // Default for requests that don't set pipeline.analyzeConsensus
+  model: string; // Analysis model; empty uses the request's judge model
+  timeout_ms: number;
+  max_claims: number;
+}
+
+export interface RubricCriterion {
+  name: string; // Key of the score, e.g. 'accuracy'
+  description: string; // What the judge grades, shown in its prompt
+  weight: number; // Relative weight in the total
+}
+
+// Judges in pick-best and score-only mode
+export interface JudgeScoringConfig {
+  rubric: RubricCriterion[];
+  scale: number; // Scores run from 0 to this
+}
+
+// Order in which judges see the answers (pipeline.answerOrder), against position bias
+export interface AnswerOrderConfig {
+  default_order: 'fixed' | 'shuffle' | 'permute'; // When the request doesn't set pipeline.answerOrder
+  permutations: number; // Orders scored by 'permute', when pipeline.orderPermutations is not set
+}
+
+// Requests that set judgePanel: several judges, then a meta-judge or rank aggregation
+export interface JudgePanelConfig {
+  aggregation: 'borda' | 'majority'; // Score modes, when pipeline.panelAggregation is not set
+  disagreement_threshold: number; // 0-1: panel disagreement from which sharpDisagreement is flagged
+}
+
+// Merges whose stragglers answer after the response (pipeline.stragglers 'background')
+export interface CompletionConfig {
+  default_stragglers: 'cancel' | 'background'; // When a request's completion policy doesn't say
+  max_stored_results: number; // Oldest stored results are dropped beyond this
+  stored_result_ttl_ms: number;
+}
+
 export interface AppConfig {
   models: string[];
   judge_model: string;
@@ -9,12 +178,31 @@ export interface AppConfig {
   judge_timeout_ms: number;
   max_prompt_length: number;
   min_models_for_judge: number;
-  max_answer_length_for_judge: number;
   enable_early_judge: boolean;
   enable_debate: boolean;
   max_debate_rounds: number;
   debate_timeout_ms: number;
   judge_feedback_timeout_ms: number;
+  providers: ProviderConfig[];
+  pricing: Record<string, ModelPricing>; // Keyed by model id
+  circuit_breaker: CircuitBreakerConfig;
+  model_catalog: ModelCatalogConfig;
+  simulation: SimulationConfig;
+  cassettes: CassetteConfig;
+  attachments: AttachmentsConfig;
+  tools: ToolsConfig;
+  cache: CacheConfig;
+  scheduler: SchedulerConfig;
+  hedging: HedgingConfig;
+  prompt_budget: PromptBudgetConfig;
+  conversations: ConversationsConfig;
+  pipeline_limits: PipelineLimitsConfig;
+  modes: ModesConfig;
+  completion: CompletionConfig;
+  consensus: ConsensusConfig;
+  judge_scoring: JudgeScoringConfig;
+  judge_panel: JudgePanelConfig;
+  answer_order: AnswerOrderConfig;
 }
 
 @Injectable()
@@ -39,12 +227,85 @@ export class ConfigService {
         judge_timeout_ms: parsed.judge_timeout_ms || 25000,
         max_prompt_length: parsed.max_prompt_length || 8000,
         min_models_for_judge: parsed.min_models_for_judge || 2,
-        max_answer_length_for_judge: parsed.max_answer_length_for_judge || 5000,
         enable_early_judge: parsed.enable_early_judge !== false,
         enable_debate: parsed.enable_debate !== false,
         max_debate_rounds: parsed.max_debate_rounds || 2,
         debate_timeout_ms: parsed.debate_timeout_ms || 10000,
         judge_feedback_timeout_ms: parsed.judge_feedback_timeout_ms || 8000,
+        providers: parsed.providers || [],
+        pricing: parsed.pricing || {},
+        circuit_breaker: {
+          ...this.getDefaultConfig().circuit_breaker,
+          ...parsed.circuit_breaker,
+        },
+        model_catalog: {
+          ...this.getDefaultConfig().model_catalog,
+          ...parsed.model_catalog,
+        },
+        simulation: {
+          ...this.getDefaultConfig().simulation,
+          ...parsed.simulation,
+        },
+        cassettes: {
+          ...this.getDefaultConfig().cassettes,
+          ...parsed.cassettes,
+        },
+        attachments: {
+          ...this.getDefaultConfig().attachments,
+          ...parsed.attachments,
+        },
+        tools: {
+          ...this.getDefaultConfig().tools,
+          ...parsed.tools,
+        },
+        cache: {
+          ...this.getDefaultConfig().cache,
+          ...parsed.cache,
+        },
+        scheduler: {
+          ...this.getDefaultConfig().scheduler,
+          ...parsed.scheduler,
+        },
+        hedging: {
+          ...this.getDefaultConfig().hedging,
+          ...parsed.hedging,
+        },
+        prompt_budget: {
+          ...this.getDefaultConfig().prompt_budget,
+          ...parsed.prompt_budget,
+        },
+        conversations: {
+          ...this.getDefaultConfig().conversations,
+          ...parsed.conversations,
+        },
+        pipeline_limits: {
+          ...this.getDefaultConfig().pipeline_limits,
+          ...parsed.pipeline_limits,
+        },
+        modes: {
+          ...this.getDefaultConfig().modes,
+          ...parsed.modes,
+        },
+        completion: {
+          ...this.getDefaultConfig().completion,
+          ...parsed.completion,
+        },
+        consensus: {
+          ...this.getDefaultConfig().consensus,
+          ...parsed.consensus,
+        },
+        judge_scoring: {
+          ...this.getDefaultConfig().judge_scoring,
+          ...parsed.judge_scoring,
+        },
+        judge_panel: {
+          ...this.getDefaultConfig().judge_panel,
+          ...parsed.judge_panel,
+        },
+        answer_order: {
+          ...this.getDefaultConfig().answer_order,
+          ...parsed.answer_order,
+        },
       };
     } catch (error) {
       this.logger.error('Failed to load config.json, using defaults', error);
@@ -60,12 +321,128 @@ export class ConfigService {
       judge_timeout_ms: 25000,
       max_prompt_length: 8000,
       min_models_for_judge: 2,
-      max_answer_length_for_judge: 5000,
       enable_early_judge: true,
       enable_debate: true,
       max_debate_rounds: 2,
       debate_timeout_ms: 10000,
       judge_feedback_timeout_ms: 8000,
+      providers: [],
+      pricing: {},
+      circuit_breaker: {
+        enabled: true,
+        error_threshold_percentage: 50,
+        volume_threshold: 5,
+        rolling_window_ms: 60000,
+        reset_timeout_ms: 30000,
+      },
+      model_catalog: {
+        file: 'model-catalog.json',
+        refresh_interval_ms: 3600000,
+        fetch_timeout_ms: 10000,
+        validate_requests: true,
+      },
+      simulation: {
+        enabled: false,
+        prefix: 'sim',
+        replace_openrouter: false,
+        latency_ms: 500,
+        models: {},
+      },
+      cassettes: {
+        record: false,
+        dir: 'cassettes',
+      },
+      attachments: {
+        max_body_size: '25mb',
+        max_document_chars: 20000,
+        max_fetch_bytes: 10485760,
+        fetch_timeout_ms: 10000,
+        description_model: 'openai/gpt-4o-mini',
+        description_timeout_ms: 20000,
+      },
+      tools: {
+        max_steps: 3,
+        timeout_ms: 15000,
+        max_result_chars: 6000,
+        fetch_max_bytes: 2097152,
+        search_max_results: 5,
+      },
+      cache: {
+        enabled: true,
+        store: 'memory',
+        max_entries: 1000,
+        ttl_ms: 3600000,
+        dir: 'cache',
+      },
+      scheduler: {
+        enabled: true,
+        max_concurrent_per_provider: 16,
+        max_concurrent_per_model: 8,
+        requests_per_minute: 0,
+        max_queue_ms: 60000,
+        log_wait_over_ms: 1000,
+        providers: {},
+        models: {},
+      },
+      hedging: {
+        enabled: true,
+        percentile: 95,
+        min_samples: 20,
+        window: 100,
+        min_delay_ms: 1000,
+      },
+      prompt_budget: {
+        default_context_window: 32768,
+        context_windows: {},
+        window_usage_ratio: 0.9,
+        min_section_tokens: 200,
+        summary_model: 'openai/gpt-4o-mini',
+        summary_timeout_ms: 20000,
+      },
+      conversations: {
+        max_conversations: 1000,
+        ttl_ms: 86400000,
+        max_turns: 50,
+        max_history_tokens: 4000,
+        keep_recent_turns: 4,
+        summary_tokens: 800,
+      },
+      pipeline_limits: {
+        max_debate_rounds: 5,
+        max_timeout_ms: 120000,
+        max_tokens: 16000,
+      },
+      modes: {
+        file: 'modes.json',
+      },
+      completion: {
+        default_stragglers: 'cancel',
+        max_stored_results: 500,
+        stored_result_ttl_ms: 3600000,
+      },
+      consensus: {
+        enabled: false,
+        model: '',
+        timeout_ms: 20000,
+        max_claims: 20,
+      },
+      judge_scoring: {
+        rubric: [
+          { name: 'accuracy', description: 'Factually correct, with no errors or unsupported claims', weight: 0.4 },
+          { name: 'completeness', description: 'Covers everything the question asks', weight: 0.3 },
+          { name: 'clarity', description: 'Well organized and easy to follow', weight: 0.2 },
+          { name: 'safety', description: 'Free of harmful, biased or dangerous advice', weight: 0.1 },
+        ],
+        scale: 10,
+      },
+      judge_panel: {
+        aggregation: 'borda',
+        disagreement_threshold: 0.5,
+      },
+      answer_order: {
+        default_order: 'fixed',
+        permutations: 3,
+      },
     };
   }
 
@@ -0,0 +1,185 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OpenRouterService } from '../openrouter/openrouter.service';
+import { ConfigService, ConsensusConfig } from '../config/config.service';
+import { RequestContext } from '../common/context/request-context';
+import { StructuredOutputService } from '../structured/structured-output.service';
+import { PromptBudgetService } from '../prompt-budget/prompt-budget.service';
+
+// Room for the claim list in the analysis model's context window
+const CONSENSUS_MAX_TOKENS = 2000;
+
+export type ClaimAgreement = 'unanimous' | 'majority' | 'minority' | 'contradicted';
+
+// Equivalent claims made across the council, with the models that made or denied them
+export interface ClaimCluster {
+  claim: string;
+  agreement: ClaimAgreement;
+  supportedBy: string[]; // Model ids
+  contradictedBy: string[];
+}
+
+export interface ConsensusAnalysis {
+  agreementScore: number; // 0-1: average share of the council backing each claim, contested claims count 0
+  analysisModel: string;
+  claims: ClaimCluster[]; // Contested claims first
+}
+
+export interface ConsensusOptions {
+  context?: RequestContext;
+  conversation?: string; // Earlier turns the question follows up on
+  model?: string; // Used when consensus.model is empty (the request's judge)
+}
+
+// Entry of the analysis model's JSON (snake_case like the other model-facing schemas)
+interface RawClaim {
+  claim: string;
+  supported_by: string[];
+  contradicted_by: string[];
+}
+
+const AGREEMENT_ORDER: ClaimAgreement[] = ['contradicted', 'minority', 'majority', 'unanimous'];
+
+/**
+ * Splits the council's answers into claims, clusters equivalent claims across
+ * models and labels each cluster by how much of the council backs it.
+ */
+@Injectable()
+export class ConsensusService {
+  private readonly logger = new Logger(ConsensusService.name);
+  private readonly config: ConsensusConfig;
+
+  constructor(
+    private readonly openRouterService: OpenRouterService,
+    private readonly configService: ConfigService,
+    private readonly structuredOutputService: StructuredOutputService,
+    private readonly promptBudget: PromptBudgetService,
+  ) {
+    this.config = this.configService.get('consensus');
+  }
+
+  async analyze(
+    userPrompt: string,
+    answers: Array<{ model: string; answer: string }>,
+    options?: ConsensusOptions,
+  ): Promise<ConsensusAnalysis> {
+    if (answers.length < 2) {
+      throw new Error('Consensus analysis needs at least two answers');
+    }
+
+    const model = this.config.model || options?.model;
+    const labels = answers.map((_, index) => String.fromCharCode(65 + index)); // A, B, C, ...
+    const structured = this.structuredOutputService.compile({
+      type: 'object',
+      properties: {
+        claims: {
+          type: 'array',
+          maxItems: this.config.max_claims,
+          items: {
+            type: 'object',
+            properties: {
+              claim: { type: 'string' },
+              supported_by: { type: 'array', items: { type: 'string', enum: labels } },
+              contradicted_by: { type: 'array', items: { type: 'string', enum: labels } },
+            },
+            required: ['claim', 'supported_by', 'contradicted_by'],
+          },
+        },
+      },
+      required: ['claims'],
+    });
+
+    const systemPrompt =
+      'You compare answers from different AI models to the same question. Split every answer into its ' +
+      'substantive claims (facts, recommendations, conclusions), then merge claims that say the same thing ' +
+      'in different words into one. For each merged claim, list the answers that make it and the answers ' +
+      'that state something incompatible with it. An answer that simply does not mention a claim neither ' +
+      'supports nor contradicts it.\n\n' +
+      this.structuredOutputService.getInstructions(structured);
+
+    const fitted = await this.promptBudget.fit(
+      model,
+      [
+        { key: 'system', text: systemPrompt, fixed: true },
+        { key: 'question', text: userPrompt, fixed: true },
+        ...(options?.conversation ? [{ key: 'conversation', text: options.conversation }] : []),
+        ...answers.map((answer, index) => ({ key: labels[index], text: answer.answer })),
+      ],
+      { reservedOutputTokens: CONSENSUS_MAX_TOKENS, context: options?.context },
+    );
+
+    let message = options?.conversation ? `CONVERSATION SO FAR:\n${fitted.conversation}\n\n` : '';
+    message += `USER QUESTION:\n${fitted.question}\n\n`;
+    labels.forEach((label) => {
+      message += `ANSWER ${label}:\n${fitted[label]}\n\n`;
+    });
+    message += `List at most ${this.config.max_claims} claims, the most important first. Refer to answers by letter (${labels.join(', ')}).`;
+
+    const result = await this.openRouterService.callModelWithRetry(
+      model,
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: message },
+      ],
+      this.config.timeout_ms,
+      0,
+      {
+        temperature: 0, // The same answers should cluster the same way
+        max_tokens: CONSENSUS_MAX_TOKENS,
+        context: options?.context,
+        stage: 'consensus',
+        response_format: this.structuredOutputService.getResponseFormat(model, structured),
+      },
+    );
+
+    const parsed = options?.context
+      ? await this.structuredOutputService.parseOrRepair(
+          model,
+          result.response,
+          structured,
+          options.context,
+          this.config.timeout_ms,
+        )
+      : this.structuredOutputService.parse(result.response, structured);
+    if (parsed.errors) {
+      throw new Error(`Consensus analysis returned an invalid object: ${parsed.errors.join('; ')}`);
+    }
+
+    const toModels = (claimLabels: string[]) =>
+      Array.from(new Set(claimLabels)).map((label) => answers[labels.indexOf(label)].model);
+    const claims = (parsed.value as { claims: RawClaim[] }).claims
+      .map((raw) => this.toCluster(raw.claim, toModels(raw.supported_by), toModels(raw.contradicted_by), answers.length))
+      .filter((cluster) => cluster.supportedBy.length > 0)
+      .sort((a, b) => AGREEMENT_ORDER.indexOf(a.agreement) - AGREEMENT_ORDER.indexOf(b.agreement));
+    if (claims.length === 0) {
+      throw new Error('Consensus analysis found no claims');
+    }
+
+    const agreementScore =
+      claims.reduce(
+        (sum, cluster) => sum + (cluster.agreement === 'contradicted' ? 0 : cluster.supportedBy.length / answers.length),
+        0,
+      ) / claims.length;
+    this.logger.log(
+      `[${options?.context?.requestId}] Consensus: ${claims.length} claims, agreement ${agreementScore.toFixed(2)}, ` +
+        `${claims.filter((cluster) => cluster.agreement === 'contradicted').length} contradicted`,
+    );
+
+    return { agreementScore: Math.round(agreementScore * 100) / 100, analysisModel: model, claims };
+  }
+
+  private toCluster(claim: string, supportedBy: string[], contradictedBy: string[], answerCount: number): ClaimCluster {
+    // An answer can't back and deny the same claim; the denial wins
+    const supporters = supportedBy.filter((model) => !contradictedBy.includes(model));
+    let agreement: ClaimAgreement;
+    if (contradictedBy.length > 0) {
+      agreement = 'contradicted';
+    } else if (supporters.length === answerCount) {
+      agreement = 'unanimous';
+    } else if (supporters.length > answerCount / 2) {
+      agreement = 'majority';
+    } else {
+      agreement = 'minority';
+    }
+    return { claim, agreement, supportedBy: supporters, contradictedBy };
+  }
+}
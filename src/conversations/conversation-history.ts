@@ -0,0 +1,18 @@
+// Earlier turns of a conversation as sent to the council: a summary of the
+// compacted turns (system), then the recent turns verbatim (user / assistant)
+export interface HistoryMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const SPEAKERS: Record<'user' | 'assistant', string> = { user: 'User', assistant: 'Assistant' };
+
+/**
+ * Plain-text transcript of a history, for prompts that quote it in a single
+ * message (judge, debate) rather than as separate chat messages.
+ */
+export function renderHistory(history: HistoryMessage[]): string {
+  return history
+    .map((message) => (message.role === 'system' ? message.content : `${SPEAKERS[message.role]}: ${message.content}`))
+    .join('\n\n');
+}
@@ -0,0 +1,103 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { ConfigService, ConversationsConfig } from '../config/config.service';
+import { JudgeModelDto, QueryModelDto } from '../merge/dto/merge-request.dto';
+import { ModelResult } from '../merge/dto/merge-response.dto';
+import { UsageSummary } from '../usage/usage-tracker';
+
+export interface ConversationTurn {
+  requestId: string;
+  prompt: string;
+  mergedAnswer: string;
+  modelResults: ModelResult[];
+  judgeModelUsed?: string;
+  usage?: UsageSummary;
+  totalLatency: number; // in seconds
+  createdAt: Date;
+}
+
+export interface Conversation {
+  conversationId: string;
+  mode?: string;
+  queryModels: QueryModelDto[];
+  judgeModel: JudgeModelDto;
+  turns: ConversationTurn[];
+  summary: { text: string; coversTurns: number } | null; // Compacted history of the oldest turns
+  pendingRequestId: string | null; // Turn being answered; one at a time keeps the history in order
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * In-memory conversations. Idle ones expire after the TTL, and the least
+ * recently used are dropped once max_conversations is reached.
+ */
+@Injectable()
+export class ConversationStoreService {
+  private readonly logger = new Logger(ConversationStoreService.name);
+  private readonly config: ConversationsConfig;
+  // Map order is recency order: reads and writes move a conversation to the end
+  private readonly conversations = new Map<string, Conversation>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = this.configService.get('conversations');
+  }
+
+  create(queryModels: QueryModelDto[], judgeModel: JudgeModelDto, mode?: string): Conversation {
+    this.removeExpired();
+    while (this.conversations.size >= this.config.max_conversations) {
+      const oldest = this.conversations.keys().next().value;
+      this.conversations.delete(oldest);
+      this.logger.log(`Dropped least recently used conversation ${oldest}`);
+    }
+
+    const now = new Date();
+    const conversation: Conversation = {
+      conversationId: uuidv4(),
+      mode,
+      queryModels,
+      judgeModel,
+      turns: [],
+      summary: null,
+      pendingRequestId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.conversations.set(conversation.conversationId, conversation);
+    this.logger.log(`Created conversation ${conversation.conversationId}`);
+    return conversation;
+  }
+
+  get(conversationId: string): Conversation | null {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      return null;
+    }
+    if (this.isExpired(conversation)) {
+      this.conversations.delete(conversationId);
+      return null;
+    }
+
+    this.conversations.delete(conversationId);
+    this.conversations.set(conversationId, conversation);
+    return conversation;
+  }
+
+  addTurn(conversation: Conversation, turn: ConversationTurn): void {
+    conversation.turns.push(turn);
+    conversation.updatedAt = new Date();
+  }
+
+  private isExpired(conversation: Conversation): boolean {
+    // A turn in progress keeps its conversation alive
+    return !conversation.pendingRequestId && Date.now() - conversation.updatedAt.getTime() > this.config.ttl_ms;
+  }
+
+  private removeExpired(): void {
+    for (const [conversationId, conversation] of this.conversations.entries()) {
+      if (this.isExpired(conversation)) {
+        this.conversations.delete(conversationId);
+      }
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Res,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { ConversationService } from './conversation.service';
+import { ConversationMessageDto, CreateConversationDto } from './dto/conversation-request.dto';
+import {
+  ConversationMessageResponseDto,
+  ConversationResponseDto,
+} from './dto/conversation-response.dto';
+import { RequestCancellationService } from '../common/context/request-cancellation.service';
+
+@Controller('api/v1/conversations')
+export class ConversationController {
+  private readonly logger = new Logger(ConversationController.name);
+
+  constructor(
+    private readonly conversationService: ConversationService,
+    private readonly cancellationService: RequestCancellationService,
+  ) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  create(@Body() request: CreateConversationDto): ConversationResponseDto {
+    return this.conversationService.create(request);
+  }
+
+  @Get(':conversationId')
+  get(@Param('conversationId') conversationId: string): ConversationResponseDto {
+    return this.conversationService.get(conversationId);
+  }
+
+  @Post(':conversationId/messages')
+  @HttpCode(HttpStatus.OK)
+  async sendMessage(
+    @Param('conversationId') conversationId: string,
+    @Body() message: ConversationMessageDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ConversationMessageResponseDto> {
+    this.logger.log(`Received message for conversation ${conversationId}, prompt length: ${message.prompt.length}`);
+
+    // Like a query, the turn can be cancelled by request id or by disconnecting
+    const requestId = uuidv4();
+    const signal = this.cancellationService.register(requestId);
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        this.cancellationService.cancel(requestId, 'client disconnected');
+      }
+      this.cancellationService.release(requestId);
+    });
+
+    return this.conversationService.sendMessage(conversationId, message, requestId, signal);
+  }
+}
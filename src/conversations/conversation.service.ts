@@ -0,0 +1,181 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService, ConversationsConfig } from '../config/config.service';
+import { MergeService } from '../merge/merge.service';
+import { PricingService } from '../usage/pricing.service';
+import { PromptBudgetService } from '../prompt-budget/prompt-budget.service';
+import { countTokens } from '../prompt-budget/tokenizer';
+import { Conversation, ConversationStoreService, ConversationTurn } from './conversation-store.service';
+import { HistoryMessage, renderHistory } from './conversation-history';
+import { ConversationMessageDto, CreateConversationDto } from './dto/conversation-request.dto';
+import {
+  ConversationMessageResponseDto,
+  ConversationResponseDto,
+} from './dto/conversation-response.dto';
+
+/**
+ * Multi-turn conversations on top of the merge pipeline: every turn is answered
+ * by the conversation's council and judge with the earlier turns as history.
+ */
+@Injectable()
+export class ConversationService {
+  private readonly logger = new Logger(ConversationService.name);
+  private readonly config: ConversationsConfig;
+
+  constructor(
+    private readonly conversationStore: ConversationStoreService,
+    private readonly mergeService: MergeService,
+    private readonly pricingService: PricingService,
+    private readonly promptBudget: PromptBudgetService,
+    private readonly configService: ConfigService,
+  ) {
+    this.config = this.configService.get('conversations');
+  }
+
+  create(request: CreateConversationDto): ConversationResponseDto {
+    const conversation = this.conversationStore.create(request.queryModels, request.judgeModel, request.mode);
+    return this.toResponse(conversation);
+  }
+
+  get(conversationId: string): ConversationResponseDto {
+    return this.toResponse(this.getConversation(conversationId));
+  }
+
+  async sendMessage(
+    conversationId: string,
+    message: ConversationMessageDto,
+    requestId: string,
+    signal?: AbortSignal,
+  ): Promise<ConversationMessageResponseDto> {
+    const conversation = this.getConversation(conversationId);
+    if (conversation.pendingRequestId) {
+      throw new HttpException(
+        `Conversation ${conversationId} is still answering request ${conversation.pendingRequestId}`,
+        HttpStatus.CONFLICT,
+      );
+    }
+    if (conversation.turns.length >= this.config.max_turns) {
+      throw new HttpException(
+        `Conversation ${conversationId} has reached the maximum of ${this.config.max_turns} turns`,
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    conversation.pendingRequestId = requestId;
+    try {
+      const history = await this.buildHistory(conversation, requestId, signal);
+      const response = await this.mergeService.query(
+        message.prompt,
+        conversation.mode,
+        conversation.queryModels,
+        conversation.judgeModel,
+        {
+          budget: message.budget,
+          requestId,
+          signal,
+          attachments: message.attachments,
+          tools: message.tools,
+          cacheMode: message.cache,
+          history,
+          pipeline: message.pipeline,
+        },
+      );
+
+      // Failed and cancelled turns throw above and never become part of the history
+      this.conversationStore.addTurn(conversation, {
+        requestId,
+        prompt: message.prompt,
+        mergedAnswer: response.mergedAnswer || '',
+        modelResults: response.modelResults,
+        judgeModelUsed: response.judgeModelUsed,
+        usage: response.usage,
+        totalLatency: response.totalLatency,
+        createdAt: new Date(),
+      });
+      return { ...response, conversationId, turn: conversation.turns.length, requestId };
+    } finally {
+      conversation.pendingRequestId = null;
+    }
+  }
+
+  private getConversation(conversationId: string): Conversation {
+    const conversation = this.conversationStore.get(conversationId);
+    if (!conversation) {
+      throw new HttpException(`Conversation ${conversationId} not found`, HttpStatus.NOT_FOUND);
+    }
+    return conversation;
+  }
+
+  /**
+   * History for the next turn. Once it outgrows max_history_tokens, every turn
+   * but the latest keep_recent_turns is folded into the conversation's summary.
+   */
+  private async buildHistory(
+    conversation: Conversation,
+    requestId: string,
+    signal?: AbortSignal,
+  ): Promise<HistoryMessage[]> {
+    const history = this.toHistory(conversation);
+    const coveredTurns = conversation.summary?.coversTurns || 0;
+    const compactable = conversation.turns.length - coveredTurns - this.config.keep_recent_turns;
+    if (compactable <= 0 || countTokens(renderHistory(history)) <= this.config.max_history_tokens) {
+      return history;
+    }
+
+    // Summarizing text no longer than the summary itself saves nothing
+    const compacted = renderHistory(history.slice(0, history.length - this.config.keep_recent_turns * 2));
+    if (countTokens(compacted) <= this.config.summary_tokens) {
+      return history;
+    }
+
+    const context = { requestId, usage: this.pricingService.createTracker(), signal };
+    const text = await this.promptBudget.condense(
+      { key: 'conversation history', text: compacted },
+      this.config.summary_tokens,
+      context,
+    );
+    conversation.summary = { text, coversTurns: coveredTurns + compactable };
+    this.logger.log(
+      `[${requestId}] Compacted turns 1-${conversation.summary.coversTurns} of conversation ${conversation.conversationId}` +
+        ` ($${context.usage.getSummary().costUsd.toFixed(4)})`,
+    );
+
+    return this.toHistory(conversation);
+  }
+
+  private toHistory(conversation: Conversation): HistoryMessage[] {
+    const summary = conversation.summary;
+    const recentTurns = conversation.turns.slice(summary?.coversTurns || 0);
+    return [
+      ...(summary
+        ? [{ role: 'system' as const, content: `Summary of the earlier conversation:\n${summary.text}` }]
+        : []),
+      ...recentTurns.flatMap((turn: ConversationTurn): HistoryMessage[] => [
+        { role: 'user', content: turn.prompt },
+        { role: 'assistant', content: turn.mergedAnswer },
+      ]),
+    ];
+  }
+
+  private toResponse(conversation: Conversation): ConversationResponseDto {
+    return {
+      conversationId: conversation.conversationId,
+      mode: conversation.mode,
+      queryModels: conversation.queryModels,
+      judgeModel: conversation.judgeModel,
+      summary: conversation.summary,
+      turns: conversation.turns.map((turn, index) => ({
+        turn: index + 1,
+        requestId: turn.requestId,
+        prompt: turn.prompt,
+        mergedAnswer: turn.mergedAnswer,
+        modelResults: turn.modelResults,
+        judgeModelUsed: turn.judgeModelUsed,
+        usage: turn.usage,
+        totalLatency: turn.totalLatency,
+        createdAt: turn.createdAt.toISOString(),
+      })),
+      createdAt: conversation.createdAt.toISOString(),
+      updatedAt: conversation.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  MaxLength,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  IsIn,
+  Validate,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { SupportedModelsConstraint } from '../../catalog/supported-models.validator';
+import { ATTACHMENT_LIMITS } from '../../common/constants/app.constants';
+import { CacheMode } from '../../cache/response-cache.service';
+import {
+  AttachmentDto,
+  BudgetDto,
+  JudgeModelDto,
+  PipelineDto,
+  QueryModelDto,
+} from '../../merge/dto/merge-request.dto';
+import { PipelineLimitsConstraint } from '../../merge/pipeline-limits.validator';
+import { SupportedModeConstraint } from '../../modes/supported-mode.validator';
+
+export class CreateConversationDto {
+  // Conversations are text only: image generation and deep research stay single-turn
+  @IsString()
+  @IsOptional()
+  @Validate(SupportedModeConstraint, ['text'])
+  mode?: string;
+
+  // The council and judge answer every turn of the conversation
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => QueryModelDto)
+  @ArrayMinSize(1, { message: 'At least one query model must be specified' })
+  @ArrayMaxSize(10, { message: 'Maximum 10 models allowed' })
+  @Validate(SupportedModelsConstraint)
+  queryModels: QueryModelDto[];
+
+  @ValidateNested()
+  @Type(() => JudgeModelDto)
+  @Validate(SupportedModelsConstraint)
+  judgeModel: JudgeModelDto;
+}
+
+export class ConversationMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(8000, { message: 'Prompt cannot exceed 8000 characters' })
+  prompt: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BudgetDto)
+  budget?: BudgetDto;
+
+  // Attachments belong to this turn only; later turns see the answer, not the files
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(ATTACHMENT_LIMITS.MAX_ATTACHMENTS, {
+    message: `Maximum ${ATTACHMENT_LIMITS.MAX_ATTACHMENTS} attachments allowed`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => AttachmentDto)
+  attachments?: AttachmentDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  tools?: string[];
+
+  @IsOptional()
+  @IsIn(['use', 'bypass', 'refresh'])
+  cache?: CacheMode;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PipelineDto)
+  @Validate(PipelineLimitsConstraint)
+  pipeline?: PipelineDto;
+}
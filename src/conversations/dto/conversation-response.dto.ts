@@ -0,0 +1,32 @@
+import { MergeResponseDto, ModelResult } from '../../merge/dto/merge-response.dto';
+import { JudgeModelDto, QueryModelDto } from '../../merge/dto/merge-request.dto';
+import { UsageSummary } from '../../usage/usage-tracker';
+
+export interface ConversationTurnDto {
+  turn: number; // 1-based
+  requestId: string; // Cassette id of the turn, for replay
+  prompt: string;
+  mergedAnswer: string;
+  modelResults: ModelResult[]; // Every council answer of the turn, as returned when it was asked
+  judgeModelUsed?: string;
+  usage?: UsageSummary;
+  totalLatency: number; // in seconds
+  createdAt: string;
+}
+
+export interface ConversationResponseDto {
+  conversationId: string;
+  mode?: string;
+  queryModels: QueryModelDto[];
+  judgeModel: JudgeModelDto;
+  summary: { text: string; coversTurns: number } | null; // Stands in for turns 1..coversTurns in the history
+  turns: ConversationTurnDto[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationMessageResponseDto extends MergeResponseDto {
+  conversationId: string;
+  turn: number;
+  requestId: string;
+}
@@ -1,6 +1,20 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { OpenRouterService } from '../openrouter/openrouter.service';
 import { ConfigService } from '../config/config.service';
+import { RequestContext } from '../common/context/request-context';
+import { PromptBudgetService } from '../prompt-budget/prompt-budget.service';
+import { shuffledOrder } from '../common/utils/answer-order';
+
+// Room kept free in the window for a feedback (max 100 words) and a refined answer (max 500 words)
+const FEEDBACK_RESERVED_TOKENS = 300;
+const REFINEMENT_RESERVED_TOKENS = 1000;
+
+// An answer under the label the feedback judge and the other debaters know it by
+interface LabeledAnswer {
+  label: string;
+  model: string;
+  content: string;
+}
 
 export interface DebateRound {
   round: number;
@@ -18,6 +32,17 @@ export interface IterativeDebateResult {
   totalDebateLatency: number;
 }
 
+export interface DebateOptions {
+  onRoundComplete?: (round: DebateRound) => void; // Called as soon as each round is recorded
+  context?: RequestContext;
+  maxRounds?: number; // Overrides max_debate_rounds (e.g. when trimmed to fit a budget)
+  researchContext?: string; // Research findings shown to the debaters next to the question
+  conversation?: string; // Earlier turns of the conversation the question follows up on
+  timeoutMs?: number; // Overrides debate_timeout_ms for the refinements
+  feedbackTimeoutMs?: number; // Overrides judge_feedback_timeout_ms
+  orderSeed?: number; // Shuffle the expert labels of each round (what the feedback judge sees first)
+}
+
 @Injectable()
 export class DebateService {
   private readonly logger = new Logger(DebateService.name);
@@ -29,6 +54,7 @@ export class DebateService {
   constructor(
     private readonly openRouterService: OpenRouterService,
     private readonly configService: ConfigService,
+    private readonly promptBudget: PromptBudgetService,
   ) {
     // Load config from ConfigService (centralized)
     const config = this.configService.getConfig();
@@ -47,19 +73,52 @@ export class DebateService {
 Be concise and direct.`;
   }
 
+  /**
+   * Label the round's answers in the order the feedback judge sees them. Judges
+   * favour early positions; a seeded shuffle spreads that bias across the experts.
+   * Debaters see their peers under the same labels the feedback refers to.
+   */
+  private labelAnswers(
+    currentAnswers: Array<{ model: string; answer: string }>,
+    round: number,
+    context?: RequestContext,
+    orderSeed?: number,
+  ): LabeledAnswer[] {
+    const order =
+      orderSeed !== undefined
+        ? shuffledOrder(currentAnswers.length, orderSeed + round)
+        : currentAnswers.map((_, index) => index);
+    const labeled = order.map((answerIndex, position) => ({
+      label: `Expert ${String.fromCharCode(65 + position)}`,
+      model: currentAnswers[answerIndex].model,
+      content: currentAnswers[answerIndex].answer,
+    }));
+    this.logger.log(
+      `[${context?.requestId}] Round ${round} feedback order${orderSeed !== undefined ? ` (seed ${orderSeed + round})` : ''}: ` +
+        labeled.map((ans) => `${ans.label}=${ans.model}`).join(', '),
+    );
+    return labeled;
+  }
+
   private async getJudgeFeedback(
     originalPrompt: string,
-    currentAnswers: Array<{ model: string; answer: string }>,
+    anonymizedAnswers: LabeledAnswer[],
     round: number,
+    context?: RequestContext,
+    timeoutMs: number = this.judgeTimeoutMs,
   ): Promise<string> {
-    const anonymizedAnswers = currentAnswers.map((item, index) => ({
-      label: `Expert ${String.fromCharCode(65 + index)}`,
-      content: item.answer.substring(0, 500), // Truncate for speed
-    }));
+    const fitted = await this.promptBudget.fit(
+      this.judgeModel,
+      [
+        { key: 'system', text: this.getJudgeFeedbackPrompt(), fixed: true },
+        ...anonymizedAnswers.map((ans) => ({ key: ans.label, text: ans.content })),
+      ],
+      { reservedOutputTokens: FEEDBACK_RESERVED_TOKENS, context },
+    );
 
     let message = `Round ${round} Answers:\n\n`;
     anonymizedAnswers.forEach((ans) => {
-      message += `${ans.label}: ${ans.content}\n\n`;
+      message += `${ans.label}: ${fitted[ans.label]}\n\n`;
     });
     message += `Provide brief feedback for the next round.`;
 
@@ -70,8 +129,9 @@ Be concise and direct.`;
           { role: 'system', content: this.getJudgeFeedbackPrompt() },
           { role: 'user', content: message },
         ],
-        this.judgeTimeoutMs,
+        timeoutMs,
         0, // No retries for speed
+        { context, stage: 'judge_feedback', round },
       );
 
       return result.response;
@@ -94,26 +154,44 @@ Quickly refine your answer based on:
 Be concise. Focus on improvements.`;
   }
 
-  private buildDebateUserMessage(
+  private async buildDebateUserMessage(
     originalPrompt: string,
-    round: number,
+    systemPrompt: string,
     judgeFeedback: string,
-    allAnswers: Array<{ model: string; answer: string }>,
+    labeledAnswers: LabeledAnswer[],
     currentModel: string,
     currentModelAnswer: string,
-  ): string {
-    let message = `Q: ${originalPrompt}\n\n`;
-    message += `Judge Feedback: ${judgeFeedback}\n\n`;
+    options?: DebateOptions,
+  ): Promise<string> {
+    const peers = labeledAnswers.filter((item) => item.model !== currentModel);
+    // Peer answers, the model's own answer and the research fill the model's window
+    const fitted = await this.promptBudget.fit(
+      currentModel,
+      [
+        { key: 'system', text: systemPrompt, fixed: true },
+        { key: 'question', text: originalPrompt, fixed: true },
+        { key: 'feedback', text: judgeFeedback, fixed: true },
+        ...(options?.researchContext ? [{ key: 'research context', text: options.researchContext }] : []),
+        ...(options?.conversation ? [{ key: 'conversation', text: options.conversation }] : []),
+        ...peers.map((item) => ({ key: item.label, text: item.content })),
+        { key: 'previous answer', text: currentModelAnswer },
+      ],
+      { reservedOutputTokens: REFINEMENT_RESERVED_TOKENS, context: options?.context },
+    );
+
+    let message = options?.conversation ? `Conversation so far:\n${fitted.conversation}\n\n` : '';
+    message += `Q: ${fitted.question}\n\n`;
+    if (options?.researchContext) {
+      message += `${fitted['research context']}\n\n`;
+    }
+    message += `Judge Feedback: ${fitted.feedback}\n\n`;
     message += `Other Experts' Answers:\n`;
 
-    allAnswers.forEach((item, index) => {
-      if (item.model !== currentModel) {
-        const truncated = item.answer.substring(0, 300); // Keep it short
-        message += `Expert ${String.fromCharCode(65 + index)}: ${truncated}...\n\n`;
-      }
+    peers.forEach((item) => {
+      message += `${item.label}: ${fitted[item.label]}\n\n`;
     });
 
-    message += `Your Previous Answer: ${currentModelAnswer.substring(0, 300)}...\n\n`;
+    message += `Your Previous Answer: ${fitted['previous answer']}\n\n`;
     message += `Provide your refined answer (be concise, max 500 words).`;
 
     return message;
@@ -122,21 +200,39 @@ Be concise. Focus on improvements.`;
   async conductIterativeDebate(
     originalPrompt: string,
     initialAnswers: Array<{ model: string; answer: string }>,
+    options?: DebateOptions,
   ): Promise<IterativeDebateResult> {
     const debateRounds: DebateRound[] = [];
     let currentAnswers = initialAnswers.map((item) => ({ ...item }));
     const totalStartTime = Date.now();
+    const maxRounds = options?.maxRounds ?? this.maxDebateRounds;
+    const budget = options?.context?.budget;
 
     // Iterative rounds with judge feedback
-    for (let round = 1; round <= this.maxDebateRounds; round++) {
+    for (let round = 1; round <= maxRounds; round++) {
+      if (options?.context?.signal?.aborted) {
+        this.logger.warn(`[${options.context.requestId}] Request cancelled - stopping debate before round ${round}`);
+        break;
+      }
+      if (budget?.isExceeded()) {
+        this.logger.warn(`Budget reached - skipping debate rounds ${round}-${maxRounds}`);
+        for (let skipped = round; skipped <= maxRounds; skipped++) {
+          budget.skip(`debate_round_${skipped}`);
+        }
+        break;
+      }
+
       const roundStartTime = Date.now();
-      this.logger.log(`Debate Round ${round}/${this.maxDebateRounds}`);
+      this.logger.log(`Debate Round ${round}/${maxRounds}`);
 
+      const labeledAnswers = this.labelAnswers(currentAnswers, round, options?.context, options?.orderSeed);
       // Get judge feedback on current answers (fast, parallel with model calls if possible)
       const judgeFeedbackPromise = this.getJudgeFeedback(
         originalPrompt,
-        currentAnswers,
+        labeledAnswers,
         round,
+        options?.context,
+        options?.feedbackTimeoutMs,
       );
 
       // Get judge feedback first (needed for next round)
@@ -147,13 +243,14 @@ Be concise. Focus on improvements.`;
         const startTime = Date.now();
         try {
           const systemPrompt = this.getDebateSystemPrompt(round, judgeFeedback);
-          const userMessage = this.buildDebateUserMessage(
+          const userMessage = await this.buildDebateUserMessage(
             originalPrompt,
-            round,
+            systemPrompt,
             judgeFeedback,
-            currentAnswers,
+            labeledAnswers,
             item.model,
             item.answer,
+            options,
           );
 
           const result = await this.openRouterService.callModelWithRetry(
@@ -162,8 +259,9 @@ Be concise. Focus on improvements.`;
               { role: 'system', content: systemPrompt },
               { role: 'user', content: userMessage },
             ],
-            this.debateTimeoutMs,
+            options?.timeoutMs ?? this.debateTimeoutMs,
             0, // No retries for speed
+            { context: options?.context, stage: 'debate', round },
           );
 
           return {
@@ -195,7 +293,7 @@ Be concise. Focus on improvements.`;
       }));
 
       // Record round
-      debateRounds.push({
+      const debateRound: DebateRound = {
         round,
         judgeFeedback,
         answers: refinedAnswers.map((r) => ({
@@ -203,7 +301,9 @@ Be concise. Focus on improvements.`;
           answer: r.answer,
           latency_ms: r.latency_ms,
         })),
-      });
+      };
+      debateRounds.push(debateRound);
+      options?.onRoundComplete?.(debateRound);
 
       const roundTime = Date.now() - roundStartTime;
       this.logger.log(
@@ -1,9 +1,19 @@
 import { Controller, Get } from '@nestjs/common';
 import { HealthCheck, HealthCheckService } from '@nestjs/terminus';
+import { ProviderRegistryService } from '../providers/provider-registry.service';
+import { CircuitBreakerService } from '../resilience/circuit-breaker.service';
+import { ResponseCacheService } from '../cache/response-cache.service';
+import { UpstreamSchedulerService } from '../resilience/upstream-scheduler.service';
 
 @Controller('health')
 export class HealthController {
-  constructor(private health: HealthCheckService) {}
+  constructor(
+    private health: HealthCheckService,
+    private readonly providerRegistry: ProviderRegistryService,
+    private readonly circuitBreakerService: CircuitBreakerService,
+    private readonly responseCache: ResponseCacheService,
+    private readonly upstreamScheduler: UpstreamSchedulerService,
+  ) {}
 
   @Get()
   @HealthCheck()
@@ -25,11 +35,21 @@ export class HealthController {
 
   @Get('readiness')
   readiness() {
+    const circuitBreakers = this.circuitBreakerService.getStatuses();
+    const openCircuits = Object.keys(circuitBreakers).filter(
+      (model) => circuitBreakers[model].state === 'open',
+    );
+
     return {
       status: 'ready',
       timestamp: new Date().toISOString(),
       checks: {
         openrouter: process.env.OPENROUTER_API_KEY ? 'configured' : 'missing',
+        providers: this.providerRegistry.describe(),
+        openCircuits, // Models currently being fast-failed
+        circuitBreakers,
+        cache: this.responseCache.getStats(), // Hit/miss counts of model answers and merge results
+        scheduler: this.upstreamScheduler.getStatuses(), // In-flight and queued upstream calls per provider
       },
     };
   }
@@ -46,8 +46,16 @@ export class DeepResearchJobController {
       judgeModel: body.judgeModel,
       depth: body.depth,
       language: body.language,
+      budget: body.budget,
     };
 
+    if (options.budget !== undefined && !this.isValidBudget(options.budget)) {
+      throw new HttpException(
+        'budget must be an object with a non-negative maxUsd and/or a positive integer maxTokens',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
     this.logger.log(
       `Creating deep research job for query: ${query.substring(0, 50)}...`,
     );
@@ -73,6 +81,20 @@ export class DeepResearchJobController {
     };
   }
 
+  private isValidBudget(budget: any): boolean {
+    if (!budget || typeof budget !== 'object') {
+      return false;
+    }
+    const { maxUsd, maxTokens } = budget;
+    if (maxUsd !== undefined && (typeof maxUsd !== 'number' || maxUsd < 0)) {
+      return false;
+    }
+    if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens < 1)) {
+      return false;
+    }
+    return true;
+  }
+
   @Get(':jobId')
   @HttpCode(HttpStatus.OK)
   async getJobStatus(@Param('jobId') jobId: string): Promise<JobStatusResponseDto> {
@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { JobStoreService, JobStatus } from './job-store.service';
 import { DeepResearchService } from '../research/deep-research.service';
+import { Budget } from '../usage/budget-guard';
 
 @Injectable()
 export class DeepResearchWorkerService {
@@ -106,6 +107,7 @@ export class DeepResearchWorkerService {
         queryModels,
         judgeModel,
         jobId, // Pass jobId for correlation in logs
+        job.options?.budget,
         (progress, estimatedSeconds, currentIteration) => {
           this.jobStore.updateProgress(
             jobId,
@@ -145,6 +147,8 @@ export class DeepResearchWorkerService {
         researchSources: researchSources,
         debateRounds: result.debateRounds,
         modelAnswers: result.modelAnswers,
+        usage: result.usage,
+        ...(result.budget && { budget: result.budget }),
         metadata: {
           usedExternalSources: usedExternalSources,
           researchSourcesCount: researchSources.length,
@@ -176,6 +180,7 @@ export class DeepResearchWorkerService {
     queryModels: Array<{ id: string; name: string; provider: string }>,
     judgeModel: { id: string; name: string; provider: string },
     jobId: string,
+    budget: Budget | undefined,
     onProgress: (
       progress: number,
       estimatedSeconds?: number,
@@ -201,6 +206,7 @@ export class DeepResearchWorkerService {
         queryModels,
         judgeModel,
         jobId, // Pass jobId for logging
+        { budget, priority: 'background' },
       );
 
       // Simulate progress updates during research
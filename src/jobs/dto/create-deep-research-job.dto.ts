@@ -1,4 +1,6 @@
-import { IsString, IsNotEmpty, IsOptional, IsObject, MaxLength } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsObject, MaxLength, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { BudgetDto } from '../../merge/dto/merge-request.dto';
 
 export class DeepResearchOptionsDto {
   @IsOptional()
@@ -17,6 +19,11 @@ export class DeepResearchOptionsDto {
 
   @IsOptional()
   judgeModel?: { id: string; name: string; provider: string };
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BudgetDto)
+  budget?: BudgetDto;
 }
 
 export class CreateDeepResearchJobDto {
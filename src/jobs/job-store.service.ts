@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { v4 as uuidv4 } from 'uuid';
+import { Budget } from '../usage/budget-guard';
 
 export enum JobStatus {
   QUEUED = 'queued',
@@ -22,6 +23,7 @@ export interface DeepResearchJob {
     modelVersion?: string;
     queryModels?: Array<{ id: string; name: string; provider: string }>;
     judgeModel?: { id: string; name: string; provider: string };
+    budget?: Budget;
   };
   result: any | null; // Structured result when completed
   error: {
@@ -0,0 +1,192 @@
+import { ConfigService } from '../config/config.service';
+import { ConsensusService } from '../consensus/consensus.service';
+import { JudgePanelService } from './judge-panel.service';
+import { JudgeScoring, JudgeService } from './judge.service';
+
+describe('JudgePanelService', () => {
+  const answers = ['a', 'b', 'c'].map((model) => ({ model, answer: `answer of ${model}` }));
+
+  let scoreAnswers: jest.Mock;
+  let judgeAndMerge: jest.Mock;
+  let analyze: jest.Mock;
+  let service: JudgePanelService;
+
+  // A judge's scoring that ranks the answers in the given order
+  const ranking = (...models: string[]): JudgeScoring => ({
+    scores: models.map((model, index) => ({
+      model,
+      scores: { accuracy: 10 - index * 2 },
+      total: 10 - index * 2,
+      rank: index + 1,
+      comment: `${model} is #${index + 1}`,
+    })),
+    rationale: `${models[0]} wins`,
+    scale: 10,
+  });
+
+  const judgedBy = (rankings: Record<string, JudgeScoring | Error>) =>
+    scoreAnswers.mockImplementation(async (_prompt, _answers, judge) => {
+      const result = rankings[judge];
+      if (result instanceof Error) {
+        throw result;
+      }
+      return result;
+    });
+
+  beforeEach(() => {
+    scoreAnswers = jest.fn();
+    judgeAndMerge = jest.fn();
+    analyze = jest.fn();
+    service = new JudgePanelService(
+      { scoreAnswers, judgeAndMerge } as unknown as JudgeService,
+      { analyze } as unknown as ConsensusService,
+      { get: () => ({ disagreement_threshold: 0.5 }) } as unknown as ConfigService,
+    );
+  });
+
+  describe('score', () => {
+    it('finds no disagreement when the judges rank alike', async () => {
+      judgedBy({ j1: ranking('b', 'a', 'c'), j2: ranking('b', 'a', 'c') });
+
+      const { scoring, outcome } = await service.score('q', answers, ['j1', 'j2'], 'borda', {});
+
+      expect(scoring.scores.map((score) => [score.model, score.rank])).toEqual([
+        ['b', 1],
+        ['a', 2],
+        ['c', 3],
+      ]);
+      expect(outcome.disagreement).toBe(0);
+      expect(outcome.sharpDisagreement).toBe(false);
+    });
+
+    it('adds Borda points across judges and averages their scores', async () => {
+      // a: 2+1+2 = 5 points, b: 1+2+0 = 3, c: 0+0+1 = 1
+      judgedBy({ j1: ranking('a', 'b', 'c'), j2: ranking('b', 'a', 'c'), j3: ranking('a', 'c', 'b') });
+
+      const { scoring } = await service.score('q', answers, ['j1', 'j2', 'j3'], 'borda', {});
+
+      expect(scoring.scores.map((score) => score.model)).toEqual(['a', 'b', 'c']);
+      // a was scored 10, 8 and 10
+      expect(scoring.scores[0].total).toBe(9.3);
+      expect(scoring.scores[0].comment).toBe('a is #1 / a is #2 / a is #1');
+      expect(scoring.rationale).toBe('a wins');
+    });
+
+    it('ranks by first places under majority, with Borda points breaking ties', async () => {
+      // Borda: c 0+2+2 = 4, b 1+1+1 = 3, a 2+0+0 = 2; first places: c 2, a 1, b 0
+      judgedBy({ j1: ranking('a', 'b', 'c'), j2: ranking('c', 'b', 'a'), j3: ranking('c', 'b', 'a') });
+
+      const borda = await service.score('q', answers, ['j1', 'j2', 'j3'], 'borda', {});
+      const majority = await service.score('q', answers, ['j1', 'j2', 'j3'], 'majority', {});
+
+      expect(borda.scoring.scores.map((score) => score.model)).toEqual(['c', 'b', 'a']);
+      expect(majority.scoring.scores.map((score) => score.model)).toEqual(['c', 'a', 'b']);
+    });
+
+    it('keeps council order for remaining ties', async () => {
+      judgedBy({ j1: ranking('a', 'b', 'c'), j2: ranking('b', 'a', 'c') });
+
+      const { scoring } = await service.score('q', answers, ['j1', 'j2'], 'majority', {});
+
+      expect(scoring.scores.map((score) => score.model)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('measures disagreement as the share of answer pairs ordered differently', async () => {
+      // Reversed rankings disagree on all three pairs
+      judgedBy({ j1: ranking('a', 'b', 'c'), j2: ranking('c', 'b', 'a') });
+
+      const reversed = await service.score('q', answers, ['j1', 'j2'], 'borda', {});
+      expect(reversed.outcome.disagreement).toBe(1);
+      expect(reversed.outcome.sharpDisagreement).toBe(true);
+
+      // One swapped pair out of three
+      judgedBy({ j1: ranking('a', 'b', 'c'), j2: ranking('b', 'a', 'c') });
+
+      const swapped = await service.score('q', answers, ['j1', 'j2'], 'borda', {});
+      expect(swapped.outcome.disagreement).toBe(0.33);
+      expect(swapped.outcome.sharpDisagreement).toBe(false);
+    });
+
+    it('averages disagreement over every pair of judges', async () => {
+      // j1-j2 agree (0), j1-j3 and j2-j3 differ on one pair of three (0.33 each)
+      judgedBy({ j1: ranking('a', 'b', 'c'), j2: ranking('a', 'b', 'c'), j3: ranking('a', 'c', 'b') });
+
+      const { outcome } = await service.score('q', answers, ['j1', 'j2', 'j3'], 'borda', {});
+
+      expect(outcome.disagreement).toBe(0.22);
+    });
+
+    it('goes on without failed judges and reports them', async () => {
+      judgedBy({ j1: ranking('b', 'a', 'c'), j2: new Error('judge down') });
+
+      const { scoring, outcome } = await service.score('q', answers, ['j1', 'j2'], 'borda', {});
+
+      expect(scoring.scores[0].model).toBe('b');
+      expect(outcome.disagreement).toBeNull();
+      expect(outcome.judges).toEqual([
+        expect.objectContaining({ model: 'j1', success: true, ranking: ['b', 'a', 'c'] }),
+        expect.objectContaining({ model: 'j2', success: false, error: 'judge down' }),
+      ]);
+    });
+
+    it('fails when every judge fails', async () => {
+      judgedBy({ j1: new Error('down'), j2: new Error('down') });
+
+      await expect(service.score('q', answers, ['j1', 'j2'], 'borda', {})).rejects.toThrow('Every panel judge failed');
+    });
+  });
+
+  describe('synthesize', () => {
+    it('has the meta-judge reconcile the panel, told the contested claims', async () => {
+      judgeAndMerge.mockImplementation(async (_prompt, _answers, _rounds, judge) => `synthesis by ${judge}`);
+      analyze.mockResolvedValue({
+        agreementScore: 0.75,
+        claims: [
+          { claim: 'water boils at 100C', agreement: 'unanimous' },
+          { claim: 'the moon is cheese', agreement: 'contradicted' },
+        ],
+      });
+      const tokens: string[] = [];
+
+      const { answer, outcome } = await service.synthesize('q', answers, undefined, ['j1', 'j2'], 'meta', {
+        onToken: (delta) => tokens.push(delta),
+      });
+
+      expect(answer).toBe('synthesis by meta');
+      expect(outcome).toEqual(
+        expect.objectContaining({
+          aggregation: 'meta-judge',
+          metaJudge: 'meta',
+          disagreement: 0.25,
+          contestedClaims: ['the moon is cheese'],
+        }),
+      );
+      // Panel judges don't stream; the meta-judge does
+      expect(judgeAndMerge.mock.calls[0][5].onToken).toBeUndefined();
+      expect(judgeAndMerge.mock.calls[2][1]).toEqual([
+        { model: 'j1', answer: 'synthesis by j1' },
+        { model: 'j2', answer: 'synthesis by j2' },
+      ]);
+      expect(judgeAndMerge.mock.calls[2][5].onToken).toBeDefined();
+    });
+
+    it('uses the only answering judge without a meta step', async () => {
+      judgeAndMerge.mockImplementation(async (_prompt, _answers, _rounds, judge) => {
+        if (judge === 'j2') {
+          throw new Error('judge down');
+        }
+        return `synthesis by ${judge}`;
+      });
+      const tokens: string[] = [];
+
+      const { answer, outcome } = await service.synthesize('q', answers, undefined, ['j1', 'j2'], 'meta', {
+        onToken: (delta) => tokens.push(delta),
+      });
+
+      expect(answer).toBe('synthesis by j1');
+      expect(tokens).toEqual(['synthesis by j1']);
+      expect(outcome.disagreement).toBeNull();
+      expect(analyze).not.toHaveBeenCalled();
+    });
+  });
+});
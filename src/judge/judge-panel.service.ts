@@ -0,0 +1,230 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService, JudgePanelConfig } from '../config/config.service';
+import { ConsensusService } from '../consensus/consensus.service';
+import { AnswerScore, JudgeOptions, JudgeScoring, JudgeService } from './judge.service';
+
+export type PanelAggregation = 'borda' | 'majority';
+
+// One panel judge's run
+export interface PanelJudgeResult {
+  model: string;
+  success: boolean;
+  latency_ms: number;
+  error?: string;
+  ranking?: string[]; // Score modes: answer model ids, best first
+}
+
+export interface PanelOutcome {
+  judges: PanelJudgeResult[];
+  aggregation: 'meta-judge' | PanelAggregation;
+  metaJudge?: string; // Synthesis: the model that reconciled the panel
+  disagreement: number | null; // 0 (judges agree) to 1; null when fewer than two judges answered
+  sharpDisagreement: boolean; // disagreement reached judge_panel.disagreement_threshold
+  contestedClaims?: string[]; // Synthesis: claims the panel's answers contradict each other on
+}
+
+const RECONCILE_INSTRUCTIONS =
+  'The answers below are syntheses written by independent judges from the same council answers. ' +
+  'Reconcile them into one answer: keep what they agree on and settle each point where they differ.';
+
+/**
+ * Several judges merge or score the council's answers independently; a meta step
+ * reconciles their syntheses (meta-judge) or aggregates their rankings (Borda count
+ * or majority of first places) and measures how much the panel disagreed.
+ */
+@Injectable()
+export class JudgePanelService {
+  private readonly logger = new Logger(JudgePanelService.name);
+  private readonly config: JudgePanelConfig;
+
+  constructor(
+    private readonly judgeService: JudgeService,
+    private readonly consensusService: ConsensusService,
+    private readonly configService: ConfigService,
+  ) {
+    this.config = this.configService.get('judge_panel');
+  }
+
+  /**
+   * Every panel judge synthesizes; the meta-judge reconciles their answers, told
+   * which claims they contradict each other on. Only the meta-judge streams.
+   */
+  async synthesize(
+    userPrompt: string,
+    answers: Array<{ model: string; answer: string }>,
+    debateRounds: Array<{ round: number; judgeFeedback: string; answers: Array<{ model: string; answer: string }> }> | undefined,
+    panel: string[],
+    metaJudge: string,
+    options: JudgeOptions,
+  ): Promise<{ answer: string; outcome: PanelOutcome }> {
+    const requestId = options.context?.requestId;
+    const runs = await this.runPanel(requestId, panel, (judge) =>
+      this.judgeService.judgeAndMerge(userPrompt, answers, debateRounds, judge, false, { ...options, onToken: undefined }),
+    );
+    const outputs = runs.filter((run) => run.output !== undefined).map((run) => ({ model: run.judge.model, answer: run.output }));
+    const judges = runs.map((run) => run.judge);
+    if (outputs.length === 0) {
+      throw new Error('Every panel judge failed');
+    }
+    if (outputs.length === 1) {
+      this.logger.warn(`[${requestId}] Only ${outputs[0].model} of the judge panel answered - using its answer`);
+      options.onToken?.(outputs[0].answer);
+      return { answer: outputs[0].answer, outcome: this.toOutcome(requestId, judges, 'meta-judge', null, metaJudge) };
+    }
+
+    const analysis = await this.consensusService
+      .analyze(userPrompt, outputs, { context: options.context, conversation: options.conversation, model: metaJudge })
+      .catch((error) => {
+        this.logger.warn(`[${requestId}] Panel disagreement analysis failed: ${error.message}`);
+        return null;
+      });
+    const contested = analysis?.claims.filter((cluster) => cluster.agreement === 'contradicted') || [];
+
+    this.logger.log(`[${requestId}] Reconciling ${outputs.length} panel answers with ${metaJudge}...`);
+    const answer = await this.judgeService.judgeAndMerge(userPrompt, outputs, undefined, metaJudge, false, {
+      ...options,
+      instructions: [options.instructions, RECONCILE_INSTRUCTIONS].filter(Boolean).join(' '),
+      consensus: analysis?.claims,
+    });
+    return {
+      answer,
+      outcome: {
+        ...this.toOutcome(requestId, judges, 'meta-judge', analysis ? 1 - analysis.agreementScore : null, metaJudge),
+        ...(analysis && { contestedClaims: contested.map((cluster) => cluster.claim) }),
+      },
+    };
+  }
+
+  /**
+   * Every panel judge scores the answers; scores are averaged and the rankings
+   * aggregated. Disagreement is the mean pairwise Kendall distance of the rankings.
+   */
+  async score(
+    userPrompt: string,
+    answers: Array<{ model: string; answer: string }>,
+    panel: string[],
+    aggregation: PanelAggregation,
+    options: JudgeOptions,
+  ): Promise<{ scoring: JudgeScoring; outcome: PanelOutcome }> {
+    const requestId = options.context?.requestId;
+    const runs = await this.runPanel(requestId, panel, (judge) =>
+      this.judgeService.scoreAnswers(userPrompt, answers, judge, { ...options, onToken: undefined }),
+    );
+    const scorings = runs.filter((run) => run.output !== undefined).map((run) => run.output);
+    if (scorings.length === 0) {
+      throw new Error('Every panel judge failed');
+    }
+    const judges = runs.map((run) =>
+      run.output ? { ...run.judge, ranking: run.output.scores.map((score) => score.model) } : run.judge,
+    );
+
+    const rankings = scorings.map((scoring) => scoring.scores.map((score) => score.model));
+    const order = this.aggregateRankings(answers.map((answer) => answer.model), rankings, aggregation);
+    const scores: AnswerScore[] = order.map((model, index) => {
+      const entries = scorings.map((scoring) => scoring.scores.find((score) => score.model === model));
+      const average = (values: number[]) => Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+      return {
+        model,
+        scores: Object.fromEntries(
+          Object.keys(entries[0].scores).map((criterion) => [criterion, average(entries.map((entry) => entry.scores[criterion]))]),
+        ),
+        total: average(entries.map((entry) => entry.total)),
+        rank: index + 1,
+        comment: entries.map((entry) => entry.comment).join(' / '),
+      };
+    });
+    // The rationale of a judge who agrees with the panel's winner
+    const rationale = (scorings.find((scoring) => scoring.scores[0].model === order[0]) || scorings[0]).rationale;
+
+    return {
+      scoring: { scores, rationale, scale: scorings[0].scale },
+      outcome: this.toOutcome(requestId, judges, aggregation, rankings.length >= 2 ? this.rankingDisagreement(rankings) : null),
+    };
+  }
+
+  private async runPanel<T>(
+    requestId: string | undefined,
+    panel: string[],
+    run: (judge: string) => Promise<T>,
+  ): Promise<Array<{ judge: PanelJudgeResult; output?: T }>> {
+    return Promise.all(
+      panel.map(async (model) => {
+        const startTime = Date.now();
+        try {
+          const output = await run(model);
+          return { judge: { model, success: true, latency_ms: Date.now() - startTime }, output };
+        } catch (error) {
+          this.logger.warn(`[${requestId}] Panel judge ${model} failed: ${error.message}`);
+          return { judge: { model, success: false, latency_ms: Date.now() - startTime, error: error.message } };
+        }
+      }),
+    );
+  }
+
+  /**
+   * Borda: an answer gets (answers - rank) points from each judge. Majority: most
+   * first places wins, Borda points break ties. Remaining ties keep council order.
+   */
+  private aggregateRankings(models: string[], rankings: string[][], aggregation: PanelAggregation): string[] {
+    const points = (model: string) =>
+      rankings.reduce((sum, ranking) => sum + models.length - 1 - ranking.indexOf(model), 0);
+    const firstPlaces = (model: string) => rankings.filter((ranking) => ranking[0] === model).length;
+    return models
+      .map((model, index) => ({ model, index, points: points(model), firsts: firstPlaces(model) }))
+      .sort(
+        (a, b) =>
+          (aggregation === 'majority' ? b.firsts - a.firsts : 0) || b.points - a.points || a.index - b.index,
+      )
+      .map(({ model }) => model);
+  }
+
+  // Share of answer pairs ordered differently, averaged over pairs of judges
+  private rankingDisagreement(rankings: string[][]): number {
+    const models = rankings[0];
+    if (models.length < 2) {
+      return 0;
+    }
+
+    let total = 0;
+    let judgePairs = 0;
+    for (let a = 0; a < rankings.length; a++) {
+      for (let b = a + 1; b < rankings.length; b++) {
+        let discordant = 0;
+        let answerPairs = 0;
+        for (let i = 0; i < models.length; i++) {
+          for (let j = i + 1; j < models.length; j++) {
+            const first = rankings[a].indexOf(models[i]) - rankings[a].indexOf(models[j]);
+            const second = rankings[b].indexOf(models[i]) - rankings[b].indexOf(models[j]);
+            discordant += Math.sign(first) !== Math.sign(second) ? 1 : 0;
+            answerPairs++;
+          }
+        }
+        total += discordant / answerPairs;
+        judgePairs++;
+      }
+    }
+    return Math.round((total / judgePairs) * 100) / 100;
+  }
+
+  private toOutcome(
+    requestId: string | undefined,
+    judges: PanelJudgeResult[],
+    aggregation: PanelOutcome['aggregation'],
+    disagreement: number | null,
+    metaJudge?: string,
+  ): PanelOutcome {
+    const rounded = disagreement === null ? null : Math.round(disagreement * 100) / 100;
+    const sharpDisagreement = rounded !== null && rounded >= this.config.disagreement_threshold;
+    this.logger.log(
+      `[${requestId}] Judge panel (${aggregation}): ${judges.filter((judge) => judge.success).length}/${judges.length} judges, ` +
+        `disagreement ${rounded ?? 'n/a'}${sharpDisagreement ? ' - sharp' : ''}`,
+    );
+    return {
+      judges,
+      aggregation,
+      ...(metaJudge && { metaJudge }),
+      disagreement: rounded,
+      sharpDisagreement,
+    };
+  }
+}
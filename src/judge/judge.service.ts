@@ -1,28 +1,92 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { OpenRouterService } from '../openrouter/openrouter.service';
-import { ConfigService } from '../config/config.service';
+import { CallModelOptions, OpenRouterService } from '../openrouter/openrouter.service';
+import { ChatMessage } from '../providers/llm-provider.interface';
+import { ConfigService, JudgeScoringConfig } from '../config/config.service';
+import { RequestContext } from '../common/context/request-context';
+import { AttachmentService, PreparedAttachments } from '../attachments/attachment.service';
+import { ToolInvocation, ToolRunnerService } from '../tools/tool-runner.service';
+import {
+  FieldDisagreement,
+  StructuredOutputService,
+  StructuredSchema,
+} from '../structured/structured-output.service';
+import { PromptBudgetService, PromptSection } from '../prompt-budget/prompt-budget.service';
+import { ClaimCluster } from '../consensus/consensus.service';
+import { shuffledOrder } from '../common/utils/answer-order';
+
+// Longest merged answer the judge may write; kept free in its context window
+const JUDGE_MAX_TOKENS = 4000;
+// Room for the scores and rationale of a scoring judge
+const SCORING_MAX_TOKENS = 1500;
+
+// synthesize writes a new answer; pick-best returns the top-ranked council answer; score-only just scores
+export type JudgeMode = 'synthesize' | 'pick-best' | 'score-only';
+
+// fixed keeps council order; shuffle labels answers in a seeded random order; permute also scores several orders
+export type AnswerOrder = 'fixed' | 'shuffle' | 'permute';
+
+export interface AnswerOrdering {
+  seed: number;
+  permutations?: number; // Scoring: average over this many rotations of the shuffled order
+}
+
+// One answer's rubric scores (0 to judge_scoring.scale)
+export interface AnswerScore {
+  model: string;
+  scores: Record<string, number>; // By rubric criterion
+  total: number; // Weighted average of the criteria
+  rank: number; // 1 = best
+  comment: string;
+}
+
+export interface JudgeScoring {
+  scores: AnswerScore[]; // Best first
+  rationale: string;
+  scale: number;
+}
 
 export interface AnonymizedAnswer {
   label: string;
+  model: string; // Never shown to the judge
+  index: number; // Position in the answers passed in
   content: string;
 }
 
+export interface JudgeOptions {
+  onToken?: (delta: string) => void; // Stream the merged answer as it is generated
+  onStreamReset?: () => void; // Discard the streamed text: it preceded a tool call, not the answer
+  context?: RequestContext;
+  attachments?: PreparedAttachments; // Shown to the judge alongside the question
+  tools?: string[]; // Server-side tools the judge may call (requires context)
+  onToolInvocation?: (invocation: ToolInvocation) => void;
+  researchContext?: string; // Research findings the answers were based on (deep research)
+  conversation?: string; // Earlier turns of the conversation the question follows up on
+  timeoutMs?: number; // Overrides judge_timeout_ms
+  instructions?: string; // Synthesis instructions of the request's mode profile
+  consensus?: ClaimCluster[]; // Claim clusters of the answers, by the answers' model ids
+  ordering?: AnswerOrdering; // Shuffle the answers against position bias (unset keeps their order)
+}
+
 @Injectable()
 export class JudgeService {
   private readonly logger = new Logger(JudgeService.name);
   private readonly judgeModel: string;
   private readonly judgeTimeoutMs: number;
-  private readonly maxAnswerLength: number;
+  private readonly scoring: JudgeScoringConfig;
 
   constructor(
     private readonly openRouterService: OpenRouterService,
     private readonly configService: ConfigService,
+    private readonly attachmentService: AttachmentService,
+    private readonly toolRunner: ToolRunnerService,
+    private readonly structuredOutputService: StructuredOutputService,
+    private readonly promptBudget: PromptBudgetService,
   ) {
     // Load config from ConfigService (backward compatible)
     const config = this.configService.getConfig();
     this.judgeModel = config.judge_model;
     this.judgeTimeoutMs = config.judge_timeout_ms;
-    this.maxAnswerLength = config.max_answer_length_for_judge;
+    this.scoring = config.judge_scoring;
   }
 
   private getJudgeSystemPrompt(isResearchMode: boolean = false): string {
@@ -62,30 +126,18 @@ Your output should be a well-researched, fact-based response with proper citatio
 Your output should be a polished, professional response that demonstrates superior synthesis of all the expert opinions.`;
   }
 
-  private truncateAnswer(answer: string, maxLength: number): string {
-    if (answer.length <= maxLength) {
-      return answer;
-    }
-    // Truncate at word boundary
-    const truncated = answer.substring(0, maxLength);
-    const lastSpace = truncated.lastIndexOf(' ');
-    return lastSpace > 0 ? truncated.substring(0, lastSpace) + '...' : truncated + '...';
-  }
-
   private buildJudgeUserMessage(
     userPrompt: string,
-    anonymizedAnswers: AnonymizedAnswer[],
+    processedAnswers: AnonymizedAnswer[],
+    researchContext?: string,
+    conversation?: string,
+    consensus?: string,
   ): string {
-    // Don't truncate - we want the judge to see full answers for better synthesis
-    // Only truncate if answer is extremely long (over maxAnswerLength)
-    const processedAnswers = anonymizedAnswers.map((answer) => ({
-      ...answer,
-      content: answer.content.length > this.maxAnswerLength 
-        ? this.truncateAnswer(answer.content, this.maxAnswerLength) 
-        : answer.content,
-    }));
-
-    let message = `USER QUESTION:\n${userPrompt}\n\n`;
+    let message = conversation ? `CONVERSATION SO FAR:\n${conversation}\n\n` : '';
+    message += `USER QUESTION:\n${userPrompt}\n\n`;
+    if (researchContext) {
+      message += `RESEARCH CONTEXT:\n${researchContext}\n\n`;
+    }
     message += `You have received ${processedAnswers.length} expert answers from different AI models. `;
     message += `Your task is to create a superior synthesized response that combines the best elements from all of them.\n\n`;
     message += `EXPERT ANSWERS TO SYNTHESIZE:\n\n`;
@@ -97,42 +149,118 @@ Your output should be a polished, professional response that demonstrates superi
     });
 
     message += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+    if (consensus) {
+      message += `POINTS OF AGREEMENT AND DISAGREEMENT:\n${consensus}\n\n`;
+    }
     message += `Now create your synthesized response. Remember:\n`;
     message += `- Write in YOUR OWN WORDS (do not copy)\n`;
     message += `- Synthesize the BEST parts from ALL answers\n`;
     message += `- Create a response that is BETTER than any individual answer\n`;
     message += `- Use clear structure and formatting\n`;
+    if (consensus) {
+      message += `- Address every contradicted point explicitly: say which position is best supported and why, or that it is disputed\n`;
+    }
 
     return message;
   }
 
+  /**
+   * One line per claim cluster, naming answers by their labels.
+   */
+  private describeConsensus(clusters: ClaimCluster[], anonymizedAnswers: AnonymizedAnswer[]): string {
+    const labelsOf = (models: string[]) =>
+      models
+        .map((model) => anonymizedAnswers.find((answer) => answer.model === model)?.label)
+        .filter(Boolean)
+        .join(', ');
+    return clusters
+      .map((cluster) => {
+        const contradicted = cluster.contradictedBy.length > 0 ? `; contradicted by ${labelsOf(cluster.contradictedBy)}` : '';
+        return `- [${cluster.agreement}] ${cluster.claim} (${labelsOf(cluster.supportedBy)}${contradicted})`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Label the answers in the order the judge will see them: shuffled with the
+   * ordering seed (rotated by `rotation` for permuted scoring), else as given.
+   * The mapping is logged so position effects can be audited.
+   */
+  private anonymize(
+    answers: Array<{ model: string; content: string }>,
+    options?: JudgeOptions,
+    rotation: number = 0,
+  ): AnonymizedAnswer[] {
+    const ordering = options?.ordering;
+    const shuffled = ordering ? shuffledOrder(answers.length, ordering.seed) : answers.map((_, index) => index);
+    const anonymizedAnswers = shuffled.map((_, position) => {
+      const index = shuffled[(position + rotation) % shuffled.length];
+      return {
+        label: `Answer ${String.fromCharCode(65 + position)}`, // A, B, C, ...
+        model: answers[index].model,
+        index,
+        content: answers[index].content,
+      };
+    });
+
+    const seed = ordering ? ` (seed ${ordering.seed}${rotation > 0 ? `, rotation ${rotation}` : ''})` : '';
+    this.logger.log(
+      `[${options?.context?.requestId}] Judge answer order${seed}: ` +
+        anonymizedAnswers.map((answer) => `${answer.label}=${answer.model}`).join(', '),
+    );
+    return anonymizedAnswers;
+  }
+
+  // Each document is a fixed section of its own, so an oversized one is cut on its own
+  private documentSections(attachments: PreparedAttachments | undefined): PromptSection[] {
+    return (attachments?.documents || []).map((document, index) => ({
+      key: `document ${index + 1}`,
+      text: document.text,
+      fixed: true,
+    }));
+  }
+
+  private withFittedDocuments(
+    attachments: PreparedAttachments | undefined,
+    fitted: Record<string, string>,
+  ): PreparedAttachments | undefined {
+    return (
+      attachments && {
+        ...attachments,
+        documents: attachments.documents.map((document, index) => ({ ...document, text: fitted[`document ${index + 1}`] })),
+      }
+    );
+  }
+
   async judgeAndMerge(
     userPrompt: string,
     successfulAnswers: Array<{ model: string; answer: string }>,
     debateRounds?: Array<{ round: number; judgeFeedback: string; answers: Array<{ model: string; answer: string }> }>,
     customJudgeModel?: string,
     isResearchMode: boolean = false,
+    options?: JudgeOptions,
   ): Promise<string> {
     if (successfulAnswers.length === 0) {
       throw new Error('No successful answers to judge');
     }
 
     // Anonymize answers - remove model names, assign labels
-    const anonymizedAnswers: AnonymizedAnswer[] = successfulAnswers.map(
-      (item, index) => ({
-        label: `Answer ${String.fromCharCode(65 + index)}`, // A, B, C, ...
-        content: item.answer,
-      }),
+    const anonymizedAnswers = this.anonymize(
+      successfulAnswers.map((item) => ({ model: item.model, content: item.answer })),
+      options,
     );
 
     let systemPrompt = this.getJudgeSystemPrompt(isResearchMode);
-    let userMessage = this.buildJudgeUserMessage(userPrompt, anonymizedAnswers);
+    if (options?.instructions) {
+      systemPrompt += `\n\nMODE INSTRUCTIONS:\n${options.instructions}`;
+    }
+    let debateContext = '';
 
     // If debate rounds occurred, include them in judge context
     if (debateRounds && debateRounds.length > 0) {
       systemPrompt += `\n\nIMPORTANT: You observed ${debateRounds.length} rounds of iterative debate where models refined their answers based on judge feedback. The final answers below represent evolved, improved versions. Pay special attention to how the models addressed the feedback and incorporated improvements.`;
       
-      let debateContext = `\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+      debateContext = `\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
       debateContext += `DEBATE EVOLUTION CONTEXT:\n`;
       debateContext += `The models went through ${debateRounds.length} rounds of refinement.\n\n`;
       debateRounds.forEach((round) => {
@@ -140,32 +268,76 @@ Your output should be a polished, professional response that demonstrates superi
       });
       debateContext += `The final answers above reflect these refinements.\n`;
       debateContext += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
-      userMessage = debateContext + userMessage;
     }
 
     // Use custom judge model if provided, otherwise use default
     const judgeModelToUse = customJudgeModel || this.judgeModel;
+    const consensus = options?.consensus?.length
+      ? this.describeConsensus(options.consensus, anonymizedAnswers)
+      : '';
+
+    // Answers and research context fill the judge's window; what doesn't fit is summarized
+    const fitted = await this.promptBudget.fit(
+      judgeModelToUse,
+      [
+        { key: 'system', text: systemPrompt, fixed: true },
+        { key: 'question', text: userPrompt, fixed: true },
+        { key: 'debate', text: debateContext, fixed: true },
+        { key: 'consensus', text: consensus, fixed: true },
+        ...this.documentSections(options?.attachments),
+        ...(options?.researchContext ? [{ key: 'research context', text: options.researchContext }] : []),
+        ...(options?.conversation ? [{ key: 'conversation', text: options.conversation }] : []),
+        ...anonymizedAnswers.map((answer) => ({ key: answer.label, text: answer.content })),
+      ],
+      { reservedOutputTokens: JUDGE_MAX_TOKENS, context: options?.context },
+    );
+    const userMessage =
+      fitted.debate +
+      this.buildJudgeUserMessage(
+        fitted.question,
+        anonymizedAnswers.map((answer) => ({ ...answer, content: fitted[answer.label] })),
+        options?.researchContext && fitted['research context'],
+        options?.conversation && fitted.conversation,
+        fitted.consensus,
+      );
 
     try {
       // Use extended timeout for research mode (research context can be large)
+      const judgeTimeoutMs = options?.timeoutMs ?? this.judgeTimeoutMs;
       const timeoutMs = isResearchMode 
-        ? Math.max(this.judgeTimeoutMs, 45000) // At least 45s for research
-        : this.judgeTimeoutMs;
+        ? Math.max(judgeTimeoutMs, 45000) // At least 45s for research
+        : judgeTimeoutMs;
       
-      // Use a higher quality call for judge with better parameters
-      const result = await this.openRouterService.callModelWithRetry(
-        judgeModelToUse,
-        [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userMessage },
-        ],
-        timeoutMs,
-        0, // No retries for judge
+      const messages: ChatMessage[] = [
+        { role: 'system', content: fitted.system },
         {
-          temperature: 0.3, // Lower temperature for more focused, quality responses
-          max_tokens: 4000, // Allow longer, more comprehensive responses
+          role: 'user',
+          content: this.attachmentService.buildUserContent(
+            userMessage,
+            this.withFittedDocuments(options?.attachments, fitted),
+            judgeModelToUse,
+          ),
         },
-      );
+      ];
+      // Use a higher quality call for judge with better parameters
+      const callOptions: CallModelOptions = {
+        temperature: 0.3, // Lower temperature for more focused, quality responses
+        max_tokens: JUDGE_MAX_TOKENS, // Allow longer, more comprehensive responses
+        onToken: options?.onToken,
+        context: options?.context,
+        stage: 'judge',
+      };
+
+      // No retries for judge
+      const result = options?.tools?.length && options.context
+        ? await this.toolRunner.callModelWithTools(judgeModelToUse, messages, timeoutMs, 0, {
+            ...callOptions,
+            context: options.context,
+            toolNames: options.tools,
+            onToolInvocation: options.onToolInvocation,
+            onStreamReset: options.onStreamReset,
+          })
+        : await this.openRouterService.callModelWithRetry(judgeModelToUse, messages, timeoutMs, 0, callOptions);
 
       return result.response;
     } catch (error) {
@@ -173,5 +345,293 @@ Your output should be a polished, professional response that demonstrates superi
       throw error;
     }
   }
-}
 
+  /**
+   * Score every answer on the judge_scoring rubric and rank them by weighted total.
+   * The ranking is computed here, not taken from the judge, so ties keep answer order.
+   * With ordering.permutations, each rotation of the shuffled order is scored and the
+   * criteria are averaged, so every answer is judged from several positions.
+   */
+  async scoreAnswers(
+    userPrompt: string,
+    answers: Array<{ model: string; answer: string }>,
+    customJudgeModel?: string,
+    options?: JudgeOptions,
+  ): Promise<JudgeScoring> {
+    if (answers.length === 0) {
+      throw new Error('No successful answers to judge');
+    }
+
+    const judgeModelToUse = customJudgeModel || this.judgeModel;
+    const { rubric, scale } = this.scoring;
+    // Rotations beyond the answer count would repeat positions
+    const rotations = Math.min(options?.ordering?.permutations || 1, answers.length);
+    const passes = await Promise.all(
+      Array.from({ length: rotations }, (_, rotation) =>
+        this.scorePass(userPrompt, answers, judgeModelToUse, options, rotation),
+      ),
+    );
+
+    const totalWeight = rubric.reduce((sum, criterion) => sum + criterion.weight, 0);
+    const scored = answers.map((answer, index) => {
+      const scores = Object.fromEntries(
+        rubric.map((criterion) => {
+          const average = passes.reduce((sum, pass) => sum + pass.scores[index][criterion.name], 0) / passes.length;
+          return [criterion.name, Math.round(average * 10) / 10];
+        }),
+      );
+      const total = rubric.reduce((sum, criterion) => sum + scores[criterion.name] * criterion.weight, 0) / totalWeight;
+      return { model: answer.model, scores, total: Math.round(total * 10) / 10, rank: 0, comment: passes[0].comments[index] };
+    });
+    if (passes.length > 1) {
+      this.logger.log(
+        `[${options?.context?.requestId}] Totals by rotation: ` +
+          answers
+            .map((answer, index) => `${answer.model} ${passes.map((pass) => pass.totals[index].toFixed(1)).join('/')}`)
+            .join(', '),
+      );
+    }
+
+    // Stable sort: equal totals keep answer order
+    const ranked = scored
+      .map((score, index) => ({ score, index }))
+      .sort((a, b) => b.score.total - a.score.total || a.index - b.index)
+      .map(({ score }, index) => ({ ...score, rank: index + 1 }));
+    return { scores: ranked, rationale: passes[0].rationale, scale };
+  }
+
+  /**
+   * One scoring call with the answers in one order. Scores come back in the order
+   * of `answers`, whatever position each was shown in.
+   */
+  private async scorePass(
+    userPrompt: string,
+    answers: Array<{ model: string; answer: string }>,
+    judgeModelToUse: string,
+    options: JudgeOptions | undefined,
+    rotation: number,
+  ): Promise<{ scores: Array<Record<string, number>>; totals: number[]; comments: string[]; rationale: string }> {
+    const { rubric, scale } = this.scoring;
+    const anonymizedAnswers = this.anonymize(
+      answers.map((item) => ({ model: item.model, content: item.answer })),
+      options,
+      rotation,
+    );
+    const labels = anonymizedAnswers.map((answer) => answer.label);
+    // Keyed by label so every answer must be scored
+    const answerScore = {
+      type: 'object',
+      properties: {
+        ...Object.fromEntries(
+          rubric.map((criterion) => [criterion.name, { type: 'number', minimum: 0, maximum: scale }]),
+        ),
+        comment: { type: 'string' },
+      },
+      required: [...rubric.map((criterion) => criterion.name), 'comment'],
+    };
+    const structured = this.structuredOutputService.compile({
+      type: 'object',
+      properties: {
+        scores: {
+          type: 'object',
+          properties: Object.fromEntries(labels.map((label) => [label, answerScore])),
+          required: labels,
+        },
+        rationale: { type: 'string' },
+      },
+      required: ['scores', 'rationale'],
+    });
+
+    let systemPrompt =
+      'You are an expert judge grading answers from different AI models to the same question. ' +
+      `Score every answer from 0 to ${scale} on each criterion:\n` +
+      rubric.map((criterion) => `- ${criterion.name}: ${criterion.description}`).join('\n') +
+      '\n\nGrade each answer on its own merits; do not reward length. Give each answer a one-sentence comment, ' +
+      'and a short rationale (2-3 sentences) for what separates the best answer from the rest.';
+    if (options?.instructions) {
+      systemPrompt += `\n\nMODE INSTRUCTIONS:\n${options.instructions}`;
+    }
+    systemPrompt += `\n\n${this.structuredOutputService.getInstructions(structured)}`;
+
+    const consensus = options?.consensus?.length
+      ? this.describeConsensus(options.consensus, anonymizedAnswers)
+      : '';
+    const fitted = await this.promptBudget.fit(
+      judgeModelToUse,
+      [
+        { key: 'system', text: systemPrompt, fixed: true },
+        { key: 'question', text: userPrompt, fixed: true },
+        { key: 'consensus', text: consensus, fixed: true },
+        ...this.documentSections(options?.attachments),
+        ...(options?.researchContext ? [{ key: 'research context', text: options.researchContext }] : []),
+        ...(options?.conversation ? [{ key: 'conversation', text: options.conversation }] : []),
+        ...anonymizedAnswers.map((answer) => ({ key: answer.label, text: answer.content })),
+      ],
+      { reservedOutputTokens: SCORING_MAX_TOKENS, context: options?.context },
+    );
+
+    let message = options?.conversation ? `CONVERSATION SO FAR:\n${fitted.conversation}\n\n` : '';
+    message += `USER QUESTION:\n${fitted.question}\n\n`;
+    if (options?.researchContext) {
+      message += `RESEARCH CONTEXT:\n${fitted['research context']}\n\n`;
+    }
+    anonymizedAnswers.forEach((answer) => {
+      message += `${answer.label}:\n${fitted[answer.label]}\n\n`;
+    });
+    if (consensus) {
+      message += `POINTS OF AGREEMENT AND DISAGREEMENT:\n${fitted.consensus}\n\n`;
+    }
+    message += `Score all ${answers.length} answers.`;
+
+    const context = options?.context;
+    const timeoutMs = options?.timeoutMs ?? this.judgeTimeoutMs;
+    const result = await this.openRouterService.callModelWithRetry(
+      judgeModelToUse,
+      [
+        { role: 'system', content: fitted.system },
+        {
+          role: 'user',
+          content: this.attachmentService.buildUserContent(
+            message,
+            this.withFittedDocuments(options?.attachments, fitted),
+            judgeModelToUse,
+          ),
+        },
+      ],
+      timeoutMs,
+      0, // No retries for judge
+      {
+        temperature: 0, // Scores should be stable across runs
+        max_tokens: SCORING_MAX_TOKENS,
+        context,
+        stage: 'judge',
+        response_format: this.structuredOutputService.getResponseFormat(judgeModelToUse, structured),
+      },
+    );
+
+    const parsed = context
+      ? await this.structuredOutputService.parseOrRepair(judgeModelToUse, result.response, structured, context, timeoutMs)
+      : this.structuredOutputService.parse(result.response, structured);
+    if (parsed.errors) {
+      throw new Error(`Judge returned invalid scores: ${parsed.errors.join('; ')}`);
+    }
+
+    const value = parsed.value as { scores: Record<string, Record<string, unknown>>; rationale: string };
+    const totalWeight = rubric.reduce((sum, criterion) => sum + criterion.weight, 0);
+    const entries = answers.map((_, index) => value.scores[anonymizedAnswers.find((answer) => answer.index === index).label]);
+    const scores = entries.map((entry) =>
+      Object.fromEntries(rubric.map((criterion) => [criterion.name, entry[criterion.name] as number])),
+    );
+    return {
+      scores,
+      totals: scores.map(
+        (score) => rubric.reduce((sum, criterion) => sum + score[criterion.name] * criterion.weight, 0) / totalWeight,
+      ),
+      comments: entries.map((entry) => String(entry.comment)),
+      rationale: value.rationale,
+    };
+  }
+
+  /**
+   * Merge schema-conforming answers field by field into one object that
+   * conforms to the same schema. Throws when the judge's object stays invalid.
+   */
+  async judgeAndMergeJson(
+    userPrompt: string,
+    answers: Array<{ model: string; value: unknown }>,
+    structured: StructuredSchema,
+    disagreements: FieldDisagreement[],
+    customJudgeModel?: string,
+    options?: JudgeOptions,
+  ): Promise<unknown> {
+    if (answers.length === 0) {
+      throw new Error('No valid answers to judge');
+    }
+
+    const judgeModelToUse = customJudgeModel || this.judgeModel;
+    const anonymizedAnswers = this.anonymize(
+      answers.map((item) => ({ model: item.model, content: JSON.stringify(item.value, null, 2) })),
+      options,
+    );
+    const labels = new Map(anonymizedAnswers.map((answer) => [answer.model, answer.label]));
+    const disagreementList = disagreements
+      .map((disagreement) => {
+        const values = disagreement.values
+          .map(({ model, value }) => `${labels.get(model)}: ${JSON.stringify(value)}`)
+          .join(', ');
+        return `- ${disagreement.path} (${values})\n`;
+      })
+      .join('');
+
+    const systemPrompt =
+      'You are an expert synthesis judge merging structured answers. ' +
+      this.structuredOutputService.getInstructions(structured);
+    const fitted = await this.promptBudget.fit(
+      judgeModelToUse,
+      [
+        { key: 'system', text: systemPrompt, fixed: true },
+        { key: 'question', text: userPrompt, fixed: true },
+        { key: 'disagreements', text: disagreementList, fixed: true },
+        ...this.documentSections(options?.attachments),
+        ...(options?.conversation ? [{ key: 'conversation', text: options.conversation }] : []),
+        ...anonymizedAnswers.map((answer) => ({ key: answer.label, text: answer.content })),
+      ],
+      { reservedOutputTokens: JUDGE_MAX_TOKENS, context: options?.context },
+    );
+
+    let message = options?.conversation ? `CONVERSATION SO FAR:\n${fitted.conversation}\n\n` : '';
+    message += `USER QUESTION:\n${fitted.question}\n\n`;
+    message += `You have received ${answers.length} JSON answers from different AI models, all conforming to the schema below.\n\n`;
+    anonymizedAnswers.forEach((answer) => {
+      message += `${answer.label}:\n${fitted[answer.label]}\n\n`;
+    });
+    if (disagreementList) {
+      message += `FIELDS WHERE THE ANSWERS DISAGREE:\n${fitted.disagreements}\n`;
+    }
+    message += `Merge the answers field by field into ONE JSON value:\n`;
+    message += `- Keep values the answers agree on\n`;
+    message += `- Where they disagree, choose the most accurate and best-supported value (combine list items when they complement each other)\n`;
+    message += `- Never invent fields the schema does not define\n`;
+
+    const context = options?.context;
+    const timeoutMs = options?.timeoutMs ?? this.judgeTimeoutMs;
+    const result = await this.openRouterService.callModelWithRetry(
+      judgeModelToUse,
+      [
+        { role: 'system', content: fitted.system },
+        {
+          role: 'user',
+          content: this.attachmentService.buildUserContent(
+            message,
+            this.withFittedDocuments(options?.attachments, fitted),
+            judgeModelToUse,
+          ),
+        },
+      ],
+      timeoutMs,
+      0, // No retries for judge
+      {
+        temperature: 0, // Field choices should be stable
+        max_tokens: JUDGE_MAX_TOKENS,
+        onToken: options?.onToken,
+        context,
+        stage: 'judge',
+        response_format: this.structuredOutputService.getResponseFormat(judgeModelToUse, structured),
+      },
+    );
+
+    const parsed = context
+      ? await this.structuredOutputService.parseOrRepair(
+          judgeModelToUse,
+          result.response,
+          structured,
+          context,
+          timeoutMs,
+        )
+      : this.structuredOutputService.parse(result.response, structured);
+    if (parsed.errors) {
+      throw new Error(`Judge returned an invalid object: ${parsed.errors.join('; ')}`);
+    }
+    return parsed.value;
+  }
+}
@@ -11,6 +11,7 @@ interface ModelResultLog {
   request_id: string;
   model: string;
   latency_ms: number;
+  queue_ms?: number; // Upstream queue wait, not included in latency_ms
   success: boolean;
   error: string | null;
 }
@@ -27,6 +28,8 @@ interface RequestCompleteLog {
   request_id: string;
   total_latency_ms: number;
   success: boolean;
+  total_tokens?: number;
+  cost_usd?: number;
 }
 
 @Injectable()
@@ -46,8 +49,9 @@ export class LoggerService {
 
   logModelResult(data: ModelResultLog): void {
     const status = data.success ? 'SUCCESS' : 'FAILED';
+    const queued = data.queue_ms ? `, queued ${data.queue_ms}ms` : '';
     this.logger.log(
-      `[${data.request_id}] Model ${data.model}: ${status} (${data.latency_ms}ms)${data.error ? ` - ${data.error}` : ''}`,
+      `[${data.request_id}] Model ${data.model}: ${status} (${data.latency_ms}ms${queued})${data.error ? ` - ${data.error}` : ''}`,
     );
   }
 
@@ -60,8 +64,12 @@ export class LoggerService {
 
   logRequestComplete(data: RequestCompleteLog): void {
     const status = data.success ? 'SUCCESS' : 'FAILED';
+    const usage =
+      data.total_tokens !== undefined
+        ? `, tokens: ${data.total_tokens}, cost: $${(data.cost_usd || 0).toFixed(4)}`
+        : '';
     this.logger.log(
-      `[${data.request_id}] Request completed: ${status} (total: ${data.total_latency_ms}ms)`,
+      `[${data.request_id}] Request completed: ${status} (total: ${data.total_latency_ms}ms${usage})`,
     );
   }
 }
@@ -1,10 +1,16 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { useContainer } from 'class-validator';
 import { AppModule } from './app.module';
 import { AllExceptionsFilter } from './common/exceptions/http-exception.filter';
+import { ConfigService } from './config/config.service';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Base64 attachments need more than the default 100kb JSON body
+  app.useBodyParser('json', { limit: app.get(ConfigService).get('attachments').max_body_size });
 
   // Global exception filter for consistent error handling
   app.useGlobalFilters(new AllExceptionsFilter());
@@ -31,9 +37,12 @@ async function bootstrap() {
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'Accept'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'X-Request-Id'],
   });
 
+  // Let validation constraints inject services (e.g. the model catalog)
+  useContainer(app.select(AppModule), { fallbackOnErrors: true });
+
   // Global validation pipe
   app.useGlobalPipes(
     new ValidationPipe({
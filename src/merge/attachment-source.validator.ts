@@ -0,0 +1,22 @@
+import {
+  ValidationArguments,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator';
+
+/**
+ * Checks that an attachment sets exactly one of `url` and `data`. Applied to
+ * a property that is always validated, since it looks at the whole object.
+ */
+@ValidatorConstraint({ name: 'attachmentSource' })
+export class AttachmentSourceConstraint implements ValidatorConstraintInterface {
+  validate(_value: unknown, args: ValidationArguments): boolean {
+    const attachment = args.object as { url?: unknown; data?: unknown };
+    return Boolean(attachment.url) !== Boolean(attachment.data);
+  }
+
+  // Nested errors are prefixed with the attachment's path, e.g. "attachments.0.url or data ..."
+  defaultMessage(): string {
+    return 'url or data must be set, but not both';
+  }
+}
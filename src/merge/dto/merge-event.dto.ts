@@ -0,0 +1,72 @@
+import { MergeResponseDto, ModelResult } from './merge-response.dto';
+import { ToolInvocation } from '../../tools/tool-runner.service';
+import { ConsensusAnalysis } from '../../consensus/consensus.service';
+
+// Server-Sent Events emitted by POST /api/v1/query/stream.
+// Each event is written as `event: <type>` followed by the JSON payload.
+export type MergePipelineEvent =
+  | {
+      type: 'start';
+      requestId: string;
+      models: string[];
+      judgeModel: string;
+    }
+  | {
+      type: 'model_token'; // Incremental content from a query model
+      modelId: string;
+      delta: string;
+    }
+  | {
+      type: 'model_complete'; // A query model finished (successfully or not)
+      result: ModelResult;
+    }
+  | {
+      type: 'model_fallback'; // A seat's model failed - its streamed tokens are superseded by the fallback's
+      modelId: string;
+      fallbackModel: string;
+      reason: string; // errorCode of the failed attempt
+    }
+  | {
+      type: 'model_hedge'; // A seat's hedged duplicate answered first - its tokens replace the seat's streamed ones
+      modelId: string;
+    }
+  | {
+      type: 'stream_reset'; // Text streamed so far preceded a tool call and is not part of the answer
+      modelId?: string; // Council model whose tokens to discard; unset for the judge
+    }
+  | {
+      type: 'tool_call'; // A query model or the judge ran a tool
+      modelId: string;
+      invocation: ToolInvocation;
+    }
+  | {
+      type: 'consensus'; // Agreement analysis of the council's answers, before debate and judge
+      consensus: ConsensusAnalysis;
+    }
+  | {
+      type: 'debate_round';
+      round: number;
+      judgeFeedback: string;
+      answers: Array<{ modelId: string; content: string; latency: number }>;
+    }
+  | {
+      type: 'judge_token'; // Incremental content of the merged answer
+      delta: string;
+    }
+  | {
+      type: 'judge_complete';
+      judgeModel: string;
+      success: boolean;
+      latency: number; // in seconds
+    }
+  | {
+      type: 'done';
+      response: MergeResponseDto;
+    }
+  | {
+      type: 'error';
+      statusCode: number;
+      message: string;
+    };
+
+export type MergeEventListener = (event: MergePipelineEvent) => void;
@@ -8,8 +8,28 @@ import {
   ArrayMaxSize,
   ValidateNested,
   IsIn,
+  IsNumber,
+  IsInt,
+  Min,
+  Max,
+  Validate,
+  ValidateIf,
+  IsUrl,
+  IsBase64,
+  IsObject,
+  IsBoolean,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { SupportedModelsConstraint } from '../../catalog/supported-models.validator';
+import { PipelineLimitsConstraint } from '../pipeline-limits.validator';
+import { AttachmentSourceConstraint } from '../attachment-source.validator';
+import { SupportedModeConstraint } from '../../modes/supported-mode.validator';
+import { ATTACHMENT_LIMITS } from '../../common/constants/app.constants';
+import { CacheMode } from '../../cache/response-cache.service';
+import { AnswerOrder, JudgeMode } from '../../judge/judge.service';
+import { PanelAggregation } from '../../judge/judge-panel.service';
+
+export type StragglerPolicy = 'cancel' | 'background';
 
 export class QueryModelDto {
   @IsString()
@@ -23,6 +43,19 @@ export class QueryModelDto {
   @IsString()
   @IsNotEmpty()
   provider: string;
+
+  // Models that take over the seat, in order, when this one fails
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(3, { message: 'Maximum 3 fallback models per seat' })
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  fallbacks?: string[];
+
+  // Send a duplicate request when the call is slower than usual for the model (see hedging config)
+  @IsOptional()
+  @IsBoolean()
+  hedge?: boolean;
 }
 
 export class JudgeModelDto {
@@ -39,26 +72,219 @@ export class JudgeModelDto {
   provider: string;
 }
 
+export class BudgetDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxUsd?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxTokens?: number;
+}
+
+// Per-request overrides of the pipeline settings in config.json; upper bounds come from pipeline_limits
+export class PipelineDto {
+  @IsOptional()
+  @IsBoolean()
+  enableDebate?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxDebateRounds?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  enableEarlyJudge?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  minModelsForJudge?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  perModelTimeoutMs?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  judgeTimeoutMs?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  debateTimeoutMs?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  judgeFeedbackTimeoutMs?: number;
+
+  // Sampling of the council's answers
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(2)
+  temperature?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxTokens?: number;
+
+  // synthesize (default) rewrites a merged answer; pick-best and score-only score the answers on the rubric
+  @IsOptional()
+  @IsIn(['synthesize', 'pick-best', 'score-only'])
+  judgeMode?: JudgeMode;
+
+  // Analyze where the council agrees and disagrees before the judge merges
+  @IsOptional()
+  @IsBoolean()
+  analyzeConsensus?: boolean;
+
+  // Completion policy: stop waiting for the council once any of these is met (unset waits for every seat)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  quorum?: number; // Successful answers
+
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  deadlineMs?: number; // Since the council was called
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  topModels?: number; // The first seats of queryModels, answered or failed
+
+  // Seats still answering then: cancelled, or left to finish and attached to the stored result
+  @IsOptional()
+  @IsIn(['cancel', 'background'])
+  stragglers?: StragglerPolicy;
+
+  // Score modes with a judge panel: Borda count over the rankings, or most first places
+  @IsOptional()
+  @IsIn(['borda', 'majority'])
+  panelAggregation?: PanelAggregation;
+
+  // Order of the answers shown to the judge: as listed, shuffled with a seed, or several orders scored
+  @IsOptional()
+  @IsIn(['fixed', 'shuffle', 'permute'])
+  answerOrder?: AnswerOrder;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  orderSeed?: number; // Reproduces an earlier shuffle (random when unset)
+
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Max(10)
+  orderPermutations?: number; // permute: orders scored, at most the number of answers
+}
+
+export class AttachmentDto {
+  @IsIn(['image', 'document'])
+  @Validate(AttachmentSourceConstraint)
+  type: 'image' | 'document';
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  name?: string;
+
+  @IsIn([...ATTACHMENT_LIMITS.IMAGE_MIME_TYPES, ...ATTACHMENT_LIMITS.DOCUMENT_MIME_TYPES])
+  mimeType: string;
+
+  // Exactly one of url / data (checked on `type`)
+  @ValidateIf((attachment) => !attachment.data)
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  url?: string;
+
+  @ValidateIf((attachment) => !attachment.url)
+  @IsBase64()
+  data?: string;
+}
+
 export class MergeRequestDto {
   @IsString()
   @IsNotEmpty()
   @MaxLength(8000, { message: 'Prompt cannot exceed 8000 characters' })
   prompt: string;
 
+  // A mode profile (GET /api/v1/modes), 'query' (general), 'image-generation' or 'deep-research'
   @IsString()
   @IsOptional()
-  @IsIn(['comprehensive', 'concise', 'technical', 'creative', 'general', 'query', 'image-generation', 'deep-research'])
-  mode?: 'comprehensive' | 'concise' | 'technical' | 'creative' | 'general' | 'query' | 'image-generation' | 'deep-research';
+  @Validate(SupportedModeConstraint)
+  mode?: string;
 
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => QueryModelDto)
   @ArrayMinSize(1, { message: 'At least one query model must be specified' })
   @ArrayMaxSize(10, { message: 'Maximum 10 models allowed' })
+  @Validate(SupportedModelsConstraint)
   queryModels: QueryModelDto[];
 
   @ValidateNested()
   @Type(() => JudgeModelDto)
+  @Validate(SupportedModelsConstraint)
   judgeModel: JudgeModelDto;
+
+  // Judges that merge or score independently; judgeModel then reconciles their syntheses
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => JudgeModelDto)
+  @ArrayMinSize(2, { message: 'A judge panel needs at least 2 judges' })
+  @ArrayMaxSize(5, { message: 'Maximum 5 panel judges allowed' })
+  @Validate(SupportedModelsConstraint)
+  judgePanel?: JudgeModelDto[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BudgetDto)
+  budget?: BudgetDto;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(ATTACHMENT_LIMITS.MAX_ATTACHMENTS, {
+    message: `Maximum ${ATTACHMENT_LIMITS.MAX_ATTACHMENTS} attachments allowed`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => AttachmentDto)
+  attachments?: AttachmentDto[];
+
+  // Names of server-side tools (GET /api/v1/tools) the council and judge may call
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  tools?: string[];
+
+  // JSON Schema the council's answers and the merged result must conform to
+  @IsOptional()
+  @IsObject()
+  responseSchema?: Record<string, unknown>;
+
+  // Response cache control: 'bypass' skips it, 'refresh' recomputes and overwrites
+  @IsOptional()
+  @IsIn(['use', 'bypass', 'refresh'])
+  cache?: CacheMode;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PipelineDto)
+  @Validate(PipelineLimitsConstraint)
+  pipeline?: PipelineDto;
 }
 
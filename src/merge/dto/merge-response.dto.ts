@@ -1,3 +1,20 @@
+import { UsageBreakdown, UsageSummary } from '../../usage/usage-tracker';
+import { BudgetReport } from '../../usage/budget-guard';
+import { ToolInvocation } from '../../tools/tool-runner.service';
+import { FieldDisagreement } from '../../structured/structured-output.service';
+import { StragglerPolicy } from './merge-request.dto';
+import { ConsensusAnalysis } from '../../consensus/consensus.service';
+import { AnswerOrder, AnswerScore, JudgeMode, JudgeScoring } from '../../judge/judge.service';
+import { PanelAggregation, PanelOutcome } from '../../judge/judge-panel.service';
+
+// A model of a seat's fallback chain that failed before another one answered
+export interface FailedAttempt {
+  modelId: string;
+  errorCode: string;
+  errorMessage: string;
+  latency: number; // in seconds
+}
+
 // New API v1 response format
 export interface ModelResult {
   modelName: string;
@@ -5,12 +22,87 @@ export interface ModelResult {
   provider: string;
   status: 'success' | 'failed';
   latency: number; // in seconds
+  queueTime?: number; // Seconds spent waiting for an upstream slot, not included in latency
   content?: string; // Markdown response (for text mode)
   imageUrl?: string; // Image URL (for image-generation mode)
   errorMessage?: string; // Only if status === "failed"
+  errorCode?: string; // Stable failure code, e.g. 'rate_limited', 'timeout', 'circuit_open'
+  usage?: UsageBreakdown; // Tokens and cost of this model's answer
+  toolCalls?: ToolInvocation[]; // Tools the model ran while answering
+  cached?: boolean; // Answer served from the response cache
+  answeredBy?: string; // Fallback model that answered the seat, when not modelId itself
+  fallbackReason?: string; // Why the fallback fired: the errorCode of the failed attempt before it
+  failedAttempts?: FailedAttempt[]; // Models of the seat's chain that failed, in order
+  hedge?: { after: number; won: boolean }; // Duplicate request sent after `after` seconds; won if it answered first
+  late?: boolean; // Straggler answer attached to the stored result after the response was returned
+  judgeScore?: Omit<AnswerScore, 'model'>; // Rubric scores (judgeMode pick-best or score-only)
+}
+
+// Outcome of a scoring judge
+export interface Judgement {
+  mode: JudgeMode;
+  ranking: string[]; // Model ids, best first
+  rationale: string;
+  scale: number; // Scores run from 0 to this
+  selectedModel?: string; // pick-best: the answer returned as mergedAnswer
+}
+
+// One judge of a judge panel
+export interface PanelJudge {
+  modelId: string;
+  success: boolean;
+  latency: number; // in seconds
+  ranking?: string[]; // Score modes: seat model ids, best first
+  errorMessage?: string;
+}
+
+// How a judge panel reached the result, and how much its judges disagreed
+export interface JudgePanelReport {
+  judges: PanelJudge[];
+  aggregation: 'meta-judge' | PanelAggregation; // meta-judge reconciles syntheses; borda/majority combine rankings
+  metaJudge?: string; // The request's judgeModel, when it reconciled the panel
+  disagreement: number | null; // 0-1; null when fewer than two judges answered
+  sharpDisagreement: boolean; // disagreement reached judge_panel.disagreement_threshold
+  contestedClaims?: string[]; // Points the panel's syntheses contradict each other on
+}
+
+// What ended the wait for the council before every seat answered
+export type ExclusionReason = 'quorum' | 'deadline' | 'top_models';
+
+// A seat the response didn't wait for
+export interface ExcludedModel {
+  modelId: string;
+  reason: ExclusionReason;
+  status: 'cancelled' | 'running' | 'completed'; // 'completed' once its late answer is in the stored result
+}
+
+// Pipeline settings a text merge ran with: config.json defaults with the request's overrides applied
+export interface PipelineSettings {
+  mode: string; // Mode profile the defaults came from
+  enableDebate: boolean;
+  maxDebateRounds: number; // Rounds planned, after trimming for the budget or a response schema
+  enableEarlyJudge: boolean;
+  minModelsForJudge: number;
+  perModelTimeoutMs: number;
+  judgeTimeoutMs: number;
+  debateTimeoutMs: number;
+  judgeFeedbackTimeoutMs: number;
+  temperature: number; // Council answers
+  maxTokens?: number; // Council answers; unset leaves the length to the model
+  judgeMode: JudgeMode;
+  analyzeConsensus: boolean; // False when fewer than two answers or a response schema
+  quorum?: number;
+  deadlineMs?: number;
+  topModels?: number;
+  stragglers: StragglerPolicy;
+  panelAggregation?: PanelAggregation; // Score modes with a judge panel
+  answerOrder: AnswerOrder;
+  orderSeed?: number; // Seed of the shuffled order (not 'fixed'); pass it back to reproduce the order
+  orderPermutations?: number; // 'permute' only
 }
 
 export interface MergeResponseDto {
+  requestId?: string; // Id for GET /api/v1/query/:requestId and cancellation (text mode)
   mergedAnswer?: string; // Markdown-formatted synthesized answer (for text mode)
   mergedImageUrl?: string; // Best selected image URL (for image-generation mode)
   modelResults: ModelResult[];
@@ -19,6 +111,17 @@ export interface MergeResponseDto {
   mode: 'text' | 'image' | 'deep-research'; // Response type
   citations?: string[]; // Research citations (for deep-research mode)
   researchSources?: Array<{ title: string; url: string; snippet: string }>; // Research sources
+  usage?: UsageSummary; // Tokens and cost across every model call made for the request
+  budget?: BudgetReport; // Only when the request set a budget
+  judgeToolCalls?: ToolInvocation[]; // Tools the judge ran while merging
+  mergedJson?: unknown; // Merged object conforming to responseSchema (null if no answer conformed)
+  disagreements?: FieldDisagreement[]; // Fields where the council's objects differed
+  cached?: boolean; // The whole result was served from the response cache
+  pipeline?: PipelineSettings; // Effective pipeline settings (text mode)
+  excludedModels?: ExcludedModel[]; // Seats left out by the completion policy (not in modelResults)
+  consensus?: ConsensusAnalysis; // Claims the council agreed and disagreed on (pipeline.analyzeConsensus)
+  judgement?: Judgement; // Scores and ranking (judgeMode pick-best or score-only; mergedAnswer is empty for score-only)
+  judgePanel?: JudgePanelReport; // Only when the request set judgePanel
 }
 
 // Internal format (for backward compatibility)
@@ -28,6 +131,16 @@ export interface ModelAnswer {
   latency_ms: number;
   success: boolean;
   error: string | null;
+  error_code?: string;
+  usage?: UsageBreakdown;
+  tool_calls?: ToolInvocation[];
+  cached?: boolean;
+}
+
+export interface ExcludedModelAnswer {
+  model: string;
+  reason: ExclusionReason;
+  status: 'cancelled' | 'running';
 }
 
 export interface MergeResponseMeta {
@@ -40,5 +153,15 @@ export interface InternalMergeResponseDto {
   merged_answer: string | null;
   model_answers: ModelAnswer[];
   meta: MergeResponseMeta;
+  usage: UsageSummary;
+  budget?: BudgetReport;
+  judge_tool_calls?: ToolInvocation[];
+  merged_json?: unknown;
+  disagreements?: FieldDisagreement[];
+  pipeline: PipelineSettings;
+  excluded_models?: ExcludedModelAnswer[];
+  consensus?: ConsensusAnalysis;
+  judge_scoring?: JudgeScoring & { mode: JudgeMode }; // Scores by seat model id
+  judge_panel?: PanelOutcome; // Rankings by seat model id
 }
 
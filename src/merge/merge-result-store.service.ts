@@ -0,0 +1,118 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CompletionConfig, ConfigService } from '../config/config.service';
+import { MergeResponseDto, ModelResult } from './dto/merge-response.dto';
+import { UsageSummary } from '../usage/usage-tracker';
+import { BudgetReport } from '../usage/budget-guard';
+
+interface StoredResult {
+  response: MergeResponseDto | null; // Null until the response is saved; stragglers can answer first
+  lateResults: ModelResult[];
+  usage?: UsageSummary; // The request's usage once a straggler finished, its calls included
+  budget?: BudgetReport;
+  updatedAt: number;
+}
+
+/**
+ * In-memory results of merges that left stragglers running in the background,
+ * with the stragglers' answers attached as they arrive. Entries expire after
+ * stored_result_ttl_ms, and the oldest are dropped beyond max_stored_results.
+ */
+@Injectable()
+export class MergeResultStoreService {
+  private readonly logger = new Logger(MergeResultStoreService.name);
+  private readonly config: CompletionConfig;
+  // Map order is insertion order, so the first entry is the oldest
+  private readonly results = new Map<string, StoredResult>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = this.configService.get('completion');
+  }
+
+  /**
+   * Start an entry once stragglers are left running, so their answers have a place
+   * to go before the response is saved.
+   */
+  open(requestId: string): void {
+    this.getOrCreate(requestId);
+  }
+
+  save(requestId: string, response: MergeResponseDto): void {
+    this.getOrCreate(requestId).response = response;
+  }
+
+  // The merge failed (or was a replay) - its stragglers' answers have no response to join
+  discard(requestId: string): void {
+    this.results.delete(requestId);
+  }
+
+  has(requestId: string): boolean {
+    const stored = this.results.get(requestId);
+    return !!stored && !this.isExpired(stored);
+  }
+
+  /**
+   * Returns false when the request has no open entry (discarded, expired or dropped).
+   */
+  attachLateResult(requestId: string, result: ModelResult, usage: UsageSummary, budget?: BudgetReport): boolean {
+    const stored = this.results.get(requestId);
+    if (!stored || this.isExpired(stored)) {
+      return false;
+    }
+    stored.lateResults.push(result);
+    stored.usage = usage;
+    stored.budget = budget;
+    stored.updatedAt = Date.now();
+    return true;
+  }
+
+  /**
+   * The saved response with the late answers appended to its model results.
+   */
+  get(requestId: string): MergeResponseDto | null {
+    const stored = this.results.get(requestId);
+    if (!stored?.response || this.isExpired(stored)) {
+      return null;
+    }
+
+    const lateModels = new Set(stored.lateResults.map((result) => result.modelId));
+    return {
+      ...stored.response,
+      modelResults: [...stored.response.modelResults, ...stored.lateResults],
+      ...(stored.usage && { usage: stored.usage }),
+      ...(stored.budget && { budget: stored.budget }),
+      excludedModels: stored.response.excludedModels?.map((excluded) =>
+        lateModels.has(excluded.modelId) ? { ...excluded, status: 'completed' } : excluded,
+      ),
+    };
+  }
+
+  private getOrCreate(requestId: string): StoredResult {
+    const existing = this.results.get(requestId);
+    if (existing && !this.isExpired(existing)) {
+      existing.updatedAt = Date.now();
+      return existing;
+    }
+
+    this.removeExpired();
+    while (this.results.size >= this.config.max_stored_results) {
+      const oldest = this.results.keys().next().value;
+      this.results.delete(oldest);
+      this.logger.log(`Dropped oldest stored result ${oldest}`);
+    }
+    const stored: StoredResult = { response: null, lateResults: [], updatedAt: Date.now() };
+    this.results.set(requestId, stored);
+    return stored;
+  }
+
+  private isExpired(stored: StoredResult): boolean {
+    return Date.now() - stored.updatedAt > this.config.stored_result_ttl_ms;
+  }
+
+  private removeExpired(): void {
+    for (const [requestId, stored] of this.results.entries()) {
+      if (this.isExpired(stored)) {
+        this.results.delete(requestId);
+      }
+    }
+  }
+}
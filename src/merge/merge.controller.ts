@@ -1,30 +1,55 @@
 import {
   Controller,
+  Get,
   Post,
   Body,
   HttpCode,
   HttpStatus,
   HttpException,
   Logger,
+  Param,
+  Req,
+  Res,
 } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
 import { MergeService } from './merge.service';
 import { MergeRequestDto } from './dto/merge-request.dto';
 import { MergeResponseDto } from './dto/merge-response.dto';
-import { ImageGenerationRequestDto } from './dto/image-generation-request.dto';
+import { MergePipelineEvent } from './dto/merge-event.dto';
+import { ImageGenerationRequestDto, ImageModelDto } from './dto/image-generation-request.dto';
 import { ImageGenerationResponseDto } from './dto/image-generation-response.dto';
+import { RequestCancellationService } from '../common/context/request-cancellation.service';
+import { ModelCatalogService } from '../catalog/model-catalog.service';
+import { CassetteService } from '../cassettes/cassette.service';
+import { MergeResultStoreService } from './merge-result-store.service';
+
+// Client-chosen request ids (X-Request-Id) must be safe to log and use in URLs
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
 
 @Controller('api/v1')
 export class MergeController {
   private readonly logger = new Logger(MergeController.name);
 
-  constructor(private readonly mergeService: MergeService) {}
+  constructor(
+    private readonly mergeService: MergeService,
+    private readonly cancellationService: RequestCancellationService,
+    private readonly modelCatalogService: ModelCatalogService,
+    private readonly cassetteService: CassetteService,
+    private readonly resultStore: MergeResultStoreService,
+  ) {}
 
   @Post('query')
   @HttpCode(HttpStatus.OK)
-  async query(@Body() mergeRequest: MergeRequestDto): Promise<MergeResponseDto> {
+  async query(
+    @Body() mergeRequest: MergeRequestDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<MergeResponseDto> {
     this.logger.log(
       `Received query request - mode: ${mergeRequest.mode || 'comprehensive'}, prompt length: ${mergeRequest.prompt.length}, models: ${mergeRequest.queryModels.length}, judge: ${mergeRequest.judgeModel.name}`,
     );
+    const { requestId, signal } = this.trackCancellation(req, res);
 
     try {
       return await this.mergeService.query(
@@ -32,6 +57,17 @@ export class MergeController {
         mergeRequest.mode,
         mergeRequest.queryModels,
         mergeRequest.judgeModel,
+        {
+          budget: mergeRequest.budget,
+          requestId,
+          signal,
+          attachments: mergeRequest.attachments,
+          tools: mergeRequest.tools,
+          responseSchema: mergeRequest.responseSchema,
+          cacheMode: mergeRequest.cache,
+          pipeline: mergeRequest.pipeline,
+          judgePanel: mergeRequest.judgePanel?.map((judge) => judge.id),
+        },
       );
     } catch (error) {
       // Re-throw HTTP exceptions as-is
@@ -45,6 +81,89 @@ export class MergeController {
     }
   }
 
+  @Post('query/stream')
+  async queryStream(
+    @Body() mergeRequest: MergeRequestDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ): Promise<void> {
+    this.logger.log(
+      `Received streaming query request - mode: ${mergeRequest.mode || 'comprehensive'}, prompt length: ${mergeRequest.prompt.length}, models: ${mergeRequest.queryModels.length}, judge: ${mergeRequest.judgeModel.name}`,
+    );
+    const { requestId, signal } = this.trackCancellation(req, res);
+
+    // Server-Sent Events: keep the connection open and push pipeline events as they happen
+    res.status(HttpStatus.OK);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+    res.flushHeaders();
+
+    const sendEvent = (event: MergePipelineEvent) => {
+      if (res.writableEnded || res.destroyed) {
+        return;
+      }
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    try {
+      const response = await this.mergeService.query(
+        mergeRequest.prompt,
+        mergeRequest.mode,
+        mergeRequest.queryModels,
+        mergeRequest.judgeModel,
+        {
+          onEvent: sendEvent,
+          budget: mergeRequest.budget,
+          requestId,
+          signal,
+          attachments: mergeRequest.attachments,
+          tools: mergeRequest.tools,
+          responseSchema: mergeRequest.responseSchema,
+          cacheMode: mergeRequest.cache,
+          pipeline: mergeRequest.pipeline,
+          judgePanel: mergeRequest.judgePanel?.map((judge) => judge.id),
+        },
+      );
+      sendEvent({ type: 'done', response });
+    } catch (error) {
+      // Headers are already sent, so errors are reported in-band instead of via the exception filter
+      const statusCode =
+        error instanceof HttpException
+          ? error.getStatus()
+          : HttpStatus.INTERNAL_SERVER_ERROR;
+      if (statusCode >= 500) {
+        this.logger.error(`Error in streaming query endpoint: ${error.message}`);
+      }
+      sendEvent({
+        type: 'error',
+        statusCode,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      res.end();
+    }
+  }
+
+  // Result of a query whose stragglers were left running (pipeline.stragglers 'background'), with their late answers
+  @Get('query/:requestId')
+  getStoredResult(@Param('requestId') requestId: string): MergeResponseDto {
+    return this.mergeService.getStoredResult(requestId);
+  }
+
+  @Post('query/:requestId/cancel')
+  @HttpCode(HttpStatus.ACCEPTED)
+  cancelQuery(@Param('requestId') requestId: string): { requestId: string; cancelled: boolean } {
+    if (!this.cancellationService.cancel(requestId, 'cancelled via API')) {
+      throw new HttpException(
+        `No in-flight query with request id ${requestId}`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return { requestId, cancelled: true };
+  }
+
   @Post('generate-image')
   @HttpCode(HttpStatus.OK)
   async generateImage(
@@ -92,45 +211,21 @@ export class MergeController {
       }
     }
 
-    // Filter out models that don't support image generation
-    // Known image generation models on OpenRouter
-    const imageGenerationModelPatterns = [
-      'dall-e',
-      'stable-diffusion',
-      'flux',
-      'midjourney',
-      'imagen',
-      'cogview',
-      'kandinsky',
-      'playground',
-      'leonardo',
-      'ideogram',
-      'black-forest-labs',
-      'stability-ai',
-    ];
-
-    const validImageModels = imageModels.filter((model: any) => {
-      const modelId = model.id.toLowerCase();
-      return imageGenerationModelPatterns.some((pattern) =>
-        modelId.includes(pattern),
-      );
-    });
+    // Filter out models that the catalog says can't generate images
+    const validImageModels: ImageModelDto[] = [];
+    for (const model of imageModels) {
+      const problems = await this.modelCatalogService.findUnsupported([model.id], 'image_output');
+      if (problems.length === 0) {
+        validImageModels.push(model);
+      }
+    }
 
     if (validImageModels.length === 0) {
       const invalidModelIds = imageModels.map((m: any) => m.id).join(', ');
-      
-      // Provide actual OpenRouter image generation model IDs
-      const suggestedModels = [
-        { id: 'openai/dall-e-3', name: 'DALL-E 3', provider: 'OpenAI' },
-        { id: 'openai/dall-e-2', name: 'DALL-E 2', provider: 'OpenAI' },
-        { id: 'black-forest-labs/flux-1.1-pro', name: 'Flux 1.1 Pro', provider: 'Black Forest Labs' },
-        { id: 'black-forest-labs/flux-1.1-schnell', name: 'Flux 1.1 Schnell', provider: 'Black Forest Labs' },
-        { id: 'stability-ai/stable-diffusion-xl-base-1.0', name: 'Stable Diffusion XL', provider: 'Stability AI' },
-        { id: 'stability-ai/sdxl', name: 'SDXL', provider: 'Stability AI' },
-        { id: 'ideogram-ai/ideogram-v2', name: 'Ideogram v2', provider: 'Ideogram' },
-        { id: 'playgroundai/playground-v2.5-1024px-aesthetic', name: 'Playground v2.5', provider: 'Playground AI' },
-      ];
-      
+      const suggestedModels = (await this.modelCatalogService.list({ capability: 'image_output' }))
+        .slice(0, 8)
+        .map((model) => ({ id: model.id, name: model.name, provider: model.id.split('/')[0] }));
+
       throw new HttpException(
         {
           message: 'None of the provided models support image generation. Text models (GPT, Claude, Gemini, Mistral) cannot generate images.',
@@ -174,6 +269,45 @@ export class MergeController {
     }
   }
 
+  /**
+   * Register the request for cancellation and abort it if the client goes away
+   * before the response has been fully written.
+   */
+  private trackCancellation(
+    req: Request,
+    res: Response,
+  ): { requestId: string; signal: AbortSignal } {
+    const clientRequestId = req.header('x-request-id');
+    if (clientRequestId !== undefined && !REQUEST_ID_PATTERN.test(clientRequestId)) {
+      throw new HttpException(
+        'X-Request-Id must be 8-64 characters of letters, digits, "-" or "_"',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    // A finished request's id stays taken while its cassette or stored result exists
+    if (
+      clientRequestId &&
+      (this.cancellationService.isActive(clientRequestId) ||
+        this.cassetteService.exists(clientRequestId) ||
+        this.resultStore.has(clientRequestId))
+    ) {
+      throw new HttpException(
+        `Request id ${clientRequestId} is already in use`,
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const requestId = clientRequestId || uuidv4();
+    const signal = this.cancellationService.register(requestId);
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        this.cancellationService.cancel(requestId, 'client disconnected');
+      }
+      this.cancellationService.release(requestId);
+    });
+    return { requestId, signal };
+  }
+
   // Note: Deep research is now handled by async job endpoint at /api/v1/deep-research
   // The old synchronous endpoint has been removed to avoid route conflicts
   // All deep research requests should use the async job endpoint with polling
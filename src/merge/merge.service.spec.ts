@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AppModule } from '../app.module';
+import { DeepResearchWorkerService } from '../jobs/deep-research-worker.service';
+import { PipelineDto, QueryModelDto } from './dto/merge-request.dto';
+import { MergeService } from './merge.service';
+
+// End to end through the whole pipeline, every model served by the simulated provider
+describe('MergeService', () => {
+  let dir: string;
+  let moduleRef: TestingModule;
+  let service: MergeService;
+
+  const seat = (id: string): QueryModelDto => ({ id, name: id, provider: 'Simulated' });
+  const judge = seat('sim/judge');
+  const council = [seat('sim/fast-a'), seat('sim/fast-b'), seat('sim/slow')];
+
+  const ask = (pipeline: PipelineDto) =>
+    service.query('What is the capital of France?', 'general', council, judge, {
+      pipeline: { enableDebate: false, analyzeConsensus: false, ...pipeline },
+    });
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'merge-service-'));
+    fs.writeFileSync(
+      path.join(dir, 'config.json'),
+      JSON.stringify({
+        models: council.map((model) => model.id),
+        judge_model: judge.id,
+        simulation: {
+          enabled: true,
+          latency_ms: 20,
+          models: { 'sim/late': { latency_ms: 1500 }, 'sim/slow': { latency_ms: 10000 } },
+        },
+        cassettes: { record: true, dir: 'cassettes' },
+        cache: { enabled: false },
+      }),
+    );
+    // Config, cassettes and the rest are read relative to the working directory
+    jest.spyOn(process, 'cwd').mockReturnValue(dir);
+
+    moduleRef = await Test.createTestingModule({ imports: [AppModule] }).compile();
+    service = moduleRef.get(MergeService);
+  });
+
+  afterAll(async () => {
+    // The job worker polls from construction on
+    moduleRef.get(DeepResearchWorkerService).stopProcessing();
+    await moduleRef.close();
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('completion policy', () => {
+    it('merges once the quorum answered and cancels the straggler', async () => {
+      const result = await ask({ quorum: 2 });
+
+      expect(result.modelResults.map((model) => [model.modelId, model.status])).toEqual([
+        ['sim/fast-a', 'success'],
+        ['sim/fast-b', 'success'],
+      ]);
+      expect(result.excludedModels).toEqual([{ modelId: 'sim/slow', reason: 'quorum', status: 'cancelled' }]);
+      expect(result.mergedAnswer).toContain('sim/judge');
+      expect(result.totalLatency).toBeLessThan(5);
+    });
+
+    it('merges what came in by the deadline', async () => {
+      const result = await ask({ deadlineMs: 1000 });
+
+      expect(result.modelResults.map((model) => model.modelId)).toEqual(['sim/fast-a', 'sim/fast-b']);
+      expect(result.excludedModels).toEqual([{ modelId: 'sim/slow', reason: 'deadline', status: 'cancelled' }]);
+      expect(result.totalLatency).toBeGreaterThanOrEqual(1);
+      expect(result.totalLatency).toBeLessThan(5);
+    });
+
+    it('waits past the deadline for a first answer', async () => {
+      const result = await service.query('Why?', 'general', [seat('sim/late'), seat('sim/slow')], judge, {
+        pipeline: { enableDebate: false, analyzeConsensus: false, deadlineMs: 1000 },
+      });
+
+      expect(result.modelResults.map((model) => model.modelId)).toEqual(['sim/late']);
+      expect(result.excludedModels).toEqual([{ modelId: 'sim/slow', reason: 'deadline', status: 'cancelled' }]);
+      expect(result.totalLatency).toBeGreaterThanOrEqual(1.5);
+    });
+
+    it('stops once the top seats are in', async () => {
+      const result = await ask({ topModels: 1 });
+
+      expect(result.modelResults.map((model) => model.modelId)).toContain('sim/fast-a');
+      expect(result.excludedModels).toEqual(
+        expect.arrayContaining([{ modelId: 'sim/slow', reason: 'top_models', status: 'cancelled' }]),
+      );
+    });
+  });
+
+  describe('replay', () => {
+    it('reproduces a recorded run, attachments and shuffled debate included', async () => {
+      const recorded = await service.query('Summarize the notes.', 'general', council.slice(0, 2), judge, {
+        pipeline: { enableDebate: true, maxDebateRounds: 1, analyzeConsensus: false, answerOrder: 'shuffle' },
+        attachments: [
+          {
+            type: 'document',
+            name: 'notes.txt',
+            mimeType: 'text/plain',
+            data: Buffer.from('Paris is the capital of France.').toString('base64'),
+          },
+        ],
+      });
+
+      const replayed = await service.replay(recorded.requestId);
+
+      expect(replayed.requestId).not.toBe(recorded.requestId);
+      expect(replayed.mergedAnswer).toBe(recorded.mergedAnswer);
+      expect(replayed.modelResults.map((model) => model.content)).toEqual(
+        recorded.modelResults.map((model) => model.content),
+      );
+      expect(replayed.pipeline.orderSeed).toBe(recorded.pipeline.orderSeed);
+    });
+  });
+});
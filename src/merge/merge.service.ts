@@ -1,19 +1,47 @@
 import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
 import { OpenRouterService } from '../openrouter/openrouter.service';
-import { JudgeService } from '../judge/judge.service';
+import { JudgeScoring, JudgeService } from '../judge/judge.service';
+import { JudgePanelService, PanelOutcome } from '../judge/judge-panel.service';
 import { LoggerService } from '../logger/logger.service';
 import { DebateService } from '../debate/debate.service';
 import {
   MergeResponseDto,
   ModelResult,
   InternalMergeResponseDto,
+  PipelineSettings,
+  ExcludedModelAnswer,
+  ExclusionReason,
 } from './dto/merge-response.dto';
-import { QueryModelDto, JudgeModelDto } from './dto/merge-request.dto';
+import { QueryModelDto, JudgeModelDto, AttachmentDto, PipelineDto } from './dto/merge-request.dto';
 import { ImageGenerationService } from '../image-generation/image-generation.service';
 import { DeepResearchService } from '../research/deep-research.service';
-import { ConfigService } from '../config/config.service';
+import { ConfigService, HedgingConfig } from '../config/config.service';
+import { PricingService } from '../usage/pricing.service';
+import { BudgetService } from '../usage/budget.service';
+import { ProviderError } from '../providers/provider-errors';
+import { Budget } from '../usage/budget-guard';
+import { RequestContext } from '../common/context/request-context';
+import { CassetteService } from '../cassettes/cassette.service';
+import { CassettePlayer } from '../cassettes/cassette';
+import { AttachmentService, PreparedAttachments } from '../attachments/attachment.service';
+import { ToolRegistryService } from '../tools/tool-registry.service';
+import { ToolInvocation, ToolRunnerService } from '../tools/tool-runner.service';
+import {
+  JsonSchema,
+  StructuredOutputService,
+  StructuredSchema,
+} from '../structured/structured-output.service';
+import { CacheMode, ResponseCacheService } from '../cache/response-cache.service';
+import { LatencyStatsService } from '../resilience/latency-stats.service';
+import { ModeProfile, ModeRegistryService } from '../modes/mode-registry.service';
+import { UsageBreakdown } from '../usage/usage-tracker';
+import { HistoryMessage, renderHistory } from '../conversations/conversation-history';
+import { ClaimCluster, ConsensusAnalysis, ConsensusService } from '../consensus/consensus.service';
 import { ImageGenerationRequestDto } from './dto/image-generation-request.dto';
 import { ImageGenerationResponseDto, ImageResult } from './dto/image-generation-response.dto';
+import { MergeEventListener, MergePipelineEvent } from './dto/merge-event.dto';
+import { MergeResultStoreService } from './merge-result-store.service';
+import { randomSeed } from '../common/utils/answer-order';
 import { v4 as uuidv4 } from 'uuid';
 import * as crypto from 'crypto';
 
@@ -21,10 +49,54 @@ interface ModelCallResult {
   model: string;
   answer: string | null;
   latency_ms: number;
+  queue_ms?: number;
   success: boolean;
   error: string | null;
+  error_code?: string;
+  usage?: UsageBreakdown;
+  tool_calls?: ToolInvocation[];
+  json?: unknown; // Validated object, when a response schema was requested
+  cached?: boolean;
+  answered_by?: string; // Fallback model that answered the seat (`model` stays the seat's own model)
+  failed_attempts?: ModelCallResult[]; // Models of the seat's chain that failed before it
+  hedge?: { after_ms: number; won: boolean };
+}
+
+// Per-request inputs shared by every council call
+interface CouncilCallOptions {
+  pipeline: PipelineSettings;
+  attachments?: PreparedAttachments;
+  tools?: string[];
+  structured?: StructuredSchema;
+  history?: HistoryMessage[];
+}
+
+// Seats (indices into the council) still answering when the completion policy was met
+interface CouncilCompletion {
+  pending: number[];
+  reason?: ExclusionReason;
+}
+
+export interface MergeOptions {
+  modelInfo?: Map<string, QueryModelDto>; // UI metadata used to build ModelResult entries
+  onEvent?: MergeEventListener; // Receives pipeline events for streaming responses
+  budget?: Budget; // Caller's cost/token ceiling for the whole request
+  requestId?: string; // Id registered for cancellation by the controller (generated when omitted)
+  signal?: AbortSignal; // Aborts every outstanding model call of the request
+  replay?: CassettePlayer; // Serve model calls from a recorded cassette instead of upstream
+  attachments?: AttachmentDto[]; // Images and documents the prompt refers to
+  preparedAttachments?: PreparedAttachments; // Attachments already prepared by a recorded run (replays)
+  tools?: string[]; // Server-side tools offered to the council and the judge
+  responseSchema?: JsonSchema; // Ask for JSON answers conforming to this schema
+  cacheMode?: CacheMode; // Response cache control (default 'use')
+  history?: HistoryMessage[]; // Earlier turns of a conversation, sent before the prompt
+  pipeline?: PipelineDto; // Overrides of the debate, judge, timeout and sampling settings
+  judgePanel?: string[]; // Judges that merge or score independently before the meta step
 }
 
+// Non-standard status (nginx convention) for requests the client abandoned
+const CLIENT_CLOSED_REQUEST = 499;
+
 @Injectable()
 export class MergeService {
   private readonly logger = new Logger(MergeService.name);
@@ -35,6 +107,8 @@ export class MergeService {
   private readonly minModelsForJudge: number;
   private readonly enableEarlyJudge: boolean;
   private readonly enableDebate: boolean;
+  private readonly maxDebateRounds: number;
+  private readonly hedging: HedgingConfig;
 
   constructor(
     private readonly openRouterService: OpenRouterService,
@@ -44,6 +118,19 @@ export class MergeService {
     private readonly imageGenerationService: ImageGenerationService,
     private readonly deepResearchService: DeepResearchService,
     private readonly configService: ConfigService,
+    private readonly pricingService: PricingService,
+    private readonly budgetService: BudgetService,
+    private readonly cassetteService: CassetteService,
+    private readonly attachmentService: AttachmentService,
+    private readonly toolRegistry: ToolRegistryService,
+    private readonly toolRunner: ToolRunnerService,
+    private readonly structuredOutputService: StructuredOutputService,
+    private readonly responseCache: ResponseCacheService,
+    private readonly latencyStats: LatencyStatsService,
+    private readonly modeRegistry: ModeRegistryService,
+    private readonly resultStore: MergeResultStoreService,
+    private readonly consensusService: ConsensusService,
+    private readonly judgePanelService: JudgePanelService,
   ) {
     // Load config from ConfigService (backward compatible)
     const config = this.configService.getConfig();
@@ -54,46 +141,386 @@ export class MergeService {
     this.minModelsForJudge = config.min_models_for_judge;
     this.enableEarlyJudge = config.enable_early_judge;
     this.enableDebate = config.enable_debate;
+    this.maxDebateRounds = config.max_debate_rounds;
+    this.hedging = config.hedging;
   }
 
   private getModelSystemPrompt(mode?: string): string {
-    const basePrompt =
-      'You are one of several models in a council answering the same question. Answer clearly and directly.';
+    const profile = this.modeRegistry.resolve(mode);
+    return profile.targetWords
+      ? `${profile.councilSystemPrompt} Keep your answer under ${profile.targetWords} words.`
+      : profile.councilSystemPrompt;
+  }
+
+  private getJudgeInstructions(profile: ModeProfile): string | undefined {
+    const instructions = [
+      profile.judgeInstructions,
+      profile.targetWords && `Keep the merged answer under ${profile.targetWords} words.`,
+    ].filter(Boolean);
+    return instructions.length > 0 ? instructions.join(' ') : undefined;
+  }
+
+  /**
+   * Pipeline settings of one request: config.json values, shaped by the mode
+   * profile, overridden by the request's.
+   */
+  private resolvePipeline(profile: ModeProfile, overrides?: PipelineDto): PipelineSettings {
+    const config = this.configService.getConfig();
+    const maxTokens = overrides?.maxTokens ?? profile.maxTokens;
+    const answerOrder = overrides?.answerOrder ?? config.answer_order.default_order;
+    return {
+      mode: profile.name,
+      enableDebate: overrides?.enableDebate ?? (profile.debate && this.enableDebate),
+      maxDebateRounds: overrides?.maxDebateRounds ?? this.maxDebateRounds,
+      enableEarlyJudge: overrides?.enableEarlyJudge ?? this.enableEarlyJudge,
+      minModelsForJudge: overrides?.minModelsForJudge ?? this.minModelsForJudge,
+      perModelTimeoutMs: overrides?.perModelTimeoutMs ?? this.perModelTimeoutMs,
+      judgeTimeoutMs: overrides?.judgeTimeoutMs ?? config.judge_timeout_ms,
+      debateTimeoutMs: overrides?.debateTimeoutMs ?? config.debate_timeout_ms,
+      judgeFeedbackTimeoutMs: overrides?.judgeFeedbackTimeoutMs ?? config.judge_feedback_timeout_ms,
+      temperature: overrides?.temperature ?? profile.temperature,
+      ...(maxTokens && { maxTokens }),
+      judgeMode: overrides?.judgeMode ?? 'synthesize',
+      analyzeConsensus: overrides?.analyzeConsensus ?? config.consensus.enabled,
+      ...(overrides?.quorum && { quorum: overrides.quorum }),
+      ...(overrides?.deadlineMs && { deadlineMs: overrides.deadlineMs }),
+      ...(overrides?.topModels && { topModels: overrides.topModels }),
+      stragglers: overrides?.stragglers ?? config.completion.default_stragglers,
+      ...(overrides?.panelAggregation && { panelAggregation: overrides.panelAggregation }),
+      answerOrder,
+      ...(answerOrder !== 'fixed' && { orderSeed: overrides?.orderSeed ?? randomSeed() }),
+      ...(answerOrder === 'permute' && {
+        orderPermutations: overrides?.orderPermutations ?? config.answer_order.permutations,
+      }),
+    };
+  }
+
+  /**
+   * Wait for the council until the completion policy is met: every seat is in,
+   * `quorum` seats answered, the first `topModels` seats are in, or the deadline
+   * passed. Stopping early needs at least one answer to merge.
+   */
+  private awaitCouncil(calls: Array<Promise<ModelCallResult>>, pipeline: PipelineSettings): Promise<CouncilCompletion> {
+    const finished = new Set<number>();
+    let answers = 0;
+    let deadlinePassed = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    return new Promise<CouncilCompletion>((resolve, reject) => {
+      const complete = (reason?: ExclusionReason) => {
+        clearTimeout(timer);
+        resolve({ pending: calls.map((_, index) => index).filter((index) => !finished.has(index)), reason });
+      };
+      const check = () => {
+        if (finished.size === calls.length) {
+          complete();
+        } else if (answers === 0) {
+          return;
+        } else if (pipeline.quorum && answers >= pipeline.quorum) {
+          complete('quorum');
+        } else if (pipeline.topModels && calls.slice(0, pipeline.topModels).every((_, index) => finished.has(index))) {
+          complete('top_models');
+        } else if (deadlinePassed) {
+          complete('deadline');
+        }
+      };
+
+      calls.forEach((call, index) =>
+        call.then((result) => {
+          finished.add(index);
+          if (result.success) {
+            answers++;
+          }
+          check();
+        }, (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }),
+      );
+      if (pipeline.deadlineMs) {
+        timer = setTimeout(() => {
+          deadlinePassed = true;
+          check();
+        }, pipeline.deadlineMs);
+      }
+    });
+  }
+
+  private toModelResult(
+    answer: ModelCallResult,
+    modelInfo?: Map<string, QueryModelDto>,
+  ): ModelResult {
+    const info = modelInfo?.get(answer.model);
+    return {
+      modelName: info?.name || answer.model,
+      modelId: answer.model,
+      provider: info?.provider || 'Unknown',
+      status: answer.success ? 'success' : 'failed',
+      latency: answer.latency_ms / 1000, // Convert ms to seconds
+      ...(answer.queue_ms && { queueTime: answer.queue_ms / 1000 }),
+      content: answer.answer || '',
+      ...(answer.error && { errorMessage: answer.error }),
+      ...(answer.error_code && { errorCode: answer.error_code }),
+      ...(answer.usage && { usage: answer.usage }),
+      ...(answer.tool_calls?.length && { toolCalls: answer.tool_calls }),
+      ...(answer.cached && { cached: true }),
+      ...(answer.answered_by && { answeredBy: answer.answered_by }),
+      ...(answer.failed_attempts?.length && {
+        fallbackReason: answer.failed_attempts[answer.failed_attempts.length - 1].error_code,
+        failedAttempts: answer.failed_attempts.map((attempt) => ({
+          modelId: attempt.model,
+          errorCode: attempt.error_code || 'unknown',
+          errorMessage: attempt.error || '',
+          latency: attempt.latency_ms / 1000,
+        })),
+      }),
+      ...(answer.hedge && { hedge: { after: answer.hedge.after_ms / 1000, won: answer.hedge.won } }),
+    };
+  }
 
-    if (mode === 'coding') {
-      return `${basePrompt} Provide code examples and explanations when relevant.`;
-    } else if (mode === 'system-design') {
-      return `${basePrompt} Focus on architecture, scalability, and trade-offs.`;
+  /**
+   * Stop the pipeline once the request has been cancelled - nobody is waiting for the result.
+   */
+  private throwIfCancelled(context: RequestContext, overallStartTime: number): void {
+    if (!context.signal?.aborted) {
+      return;
     }
 
-    return basePrompt;
+    const usageSummary = context.usage.getSummary();
+    this.logger.warn(
+      `[${context.requestId}] Request cancelled - stopped after ${usageSummary.calls.length} billed calls ($${usageSummary.costUsd.toFixed(4)})`,
+    );
+    this.loggerService.logRequestComplete({
+      request_id: context.requestId,
+      total_latency_ms: Date.now() - overallStartTime,
+      success: false,
+      total_tokens: usageSummary.totalTokens,
+      cost_usd: usageSummary.costUsd,
+    });
+
+    throw new HttpException('Request cancelled', CLIENT_CLOSED_REQUEST);
   }
 
+  private getStructuredAnswers(
+    answers: Array<{ model: string }>,
+    results: ModelCallResult[],
+  ): Array<{ model: string; value: unknown }> {
+    return answers.map((answer) => ({
+      model: answer.model,
+      value: results.find((result) => result.model === answer.model || result.answered_by === answer.model)?.json,
+    }));
+  }
+
+  /**
+   * Answer one council seat: its model first, then its fallbacks in order until
+   * one succeeds. The result keeps the seat's model id and reports who answered.
+   */
   private async callSingleModel(
     model: string,
     prompt: string,
-    mode?: string,
+    mode: string | undefined,
+    context: RequestContext,
+    onEvent: MergeEventListener | undefined,
+    callOptions: CouncilCallOptions,
+    seat?: QueryModelDto,
+  ): Promise<ModelCallResult> {
+    const chain = [model, ...(seat?.fallbacks || [])];
+    // Hedge timing depends on live latencies, so replays never hedge
+    const hedge = !!seat?.hedge && this.hedging.enabled && !context.replay;
+    const failedAttempts: ModelCallResult[] = [];
+
+    for (const candidate of chain) {
+      if (failedAttempts.length > 0) {
+        const reason = failedAttempts[failedAttempts.length - 1].error_code || 'unknown';
+        this.logger.warn(`[${context.requestId}] Seat ${model}: falling back to ${candidate} (${reason})`);
+        onEvent?.({ type: 'model_fallback', modelId: model, fallbackModel: candidate, reason });
+      }
+
+      const result = hedge
+        ? await this.callWithHedge(model, candidate, prompt, mode, context, onEvent, callOptions)
+        : await this.callCouncilModel(model, candidate, prompt, mode, context, onEvent, callOptions);
+      // A cancelled request has nobody left to answer
+      if (result.success || result.error_code === 'cancelled' || context.signal?.aborted) {
+        return this.toSeatResult(model, result, failedAttempts);
+      }
+      failedAttempts.push(result);
+    }
+
+    const lastFailure = failedAttempts.pop();
+    return this.toSeatResult(model, lastFailure, failedAttempts);
+  }
+
+  private toSeatResult(model: string, result: ModelCallResult, failedAttempts: ModelCallResult[]): ModelCallResult {
+    return {
+      ...result,
+      model,
+      ...(result.model !== model && { answered_by: result.model }),
+      ...(failedAttempts.length > 0 && { failed_attempts: failedAttempts }),
+    };
+  }
+
+  /**
+   * Call a model and, once it outlasts its usual latency (hedging percentile), send
+   * a duplicate request. The first success wins and the other call is cancelled.
+   */
+  private async callWithHedge(
+    seatModel: string,
+    model: string,
+    prompt: string,
+    mode: string | undefined,
+    context: RequestContext,
+    onEvent: MergeEventListener | undefined,
+    callOptions: CouncilCallOptions,
+  ): Promise<ModelCallResult> {
+    const threshold = this.latencyStats.getPercentile(model, this.hedging.percentile);
+    if (threshold === null) {
+      return this.callCouncilModel(seatModel, model, prompt, mode, context, onEvent, callOptions);
+    }
+    const hedgeAfterMs = Math.max(this.hedging.min_delay_ms, threshold);
+
+    // Each call gets its own signal so the loser can be cancelled without the request
+    const startCall = (listener: MergeEventListener | undefined) => {
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      context.signal?.addEventListener('abort', abort);
+      const promise = this.callCouncilModel(
+        seatModel,
+        model,
+        prompt,
+        mode,
+        { ...context, signal: controller.signal },
+        listener,
+        callOptions,
+      ).finally(() => context.signal?.removeEventListener('abort', abort));
+      return { promise, cancel: abort };
+    };
+
+    const primary = startCall(onEvent);
+    let timer: NodeJS.Timeout;
+    const early = await Promise.race([
+      primary.promise,
+      new Promise<null>((resolve) => (timer = setTimeout(() => resolve(null), hedgeAfterMs))),
+    ]);
+    clearTimeout(timer);
+    if (early) {
+      return early;
+    }
+
+    this.logger.log(`[${context.requestId}] ${model} slower than p${this.hedging.percentile} (${hedgeAfterMs}ms) - hedging`);
+    // The duplicate's events are held back: its tokens would interleave with the primary's
+    const held: MergePipelineEvent[] = [];
+    const duplicate = startCall(onEvent && ((event) => held.push(event)));
+    const calls = [primary, duplicate];
+    const winner = await new Promise<number>((resolve) => {
+      let failures = 0;
+      calls.forEach(({ promise }, index) =>
+        promise.then((result) => {
+          if (result.success) {
+            resolve(index);
+          } else if (++failures === calls.length) {
+            resolve(0); // Both failed: report the primary's failure
+          }
+        }),
+      );
+    });
+    calls.forEach((call, index) => index !== winner && call.cancel());
+
+    if (winner === 1 && onEvent) {
+      onEvent({ type: 'model_hedge', modelId: seatModel });
+      held.forEach((event) => onEvent(event));
+    }
+    const result = await calls[winner].promise;
+    return { ...result, hedge: { after_ms: hedgeAfterMs, won: winner === 1 } };
+  }
+
+  private async callCouncilModel(
+    seatModel: string,
+    model: string,
+    prompt: string,
+    mode: string | undefined,
+    context: RequestContext,
+    onEvent: MergeEventListener | undefined,
+    { pipeline, attachments, tools, structured, history }: CouncilCallOptions,
   ): Promise<ModelCallResult> {
     const startTime = Date.now();
-    const systemPrompt = this.getModelSystemPrompt(mode);
+    const systemPrompt = structured
+      ? `${this.getModelSystemPrompt(mode)}\n\n${this.structuredOutputService.getInstructions(structured)}`
+      : this.getModelSystemPrompt(mode);
 
     try {
-      const result = await this.openRouterService.callModelWithRetry(
+      const result = await this.toolRunner.callModelWithTools(
         model,
         [
           { role: 'system', content: systemPrompt },
-          { role: 'user', content: prompt },
+          ...(history || []),
+          { role: 'user', content: this.attachmentService.buildUserContent(prompt, attachments, model) },
         ],
-        this.perModelTimeoutMs,
+        pipeline.perModelTimeoutMs,
         1, // One retry for transient errors
+        {
+          temperature: pipeline.temperature,
+          ...(pipeline.maxTokens && { max_tokens: pipeline.maxTokens }),
+          onToken: onEvent
+            ? (delta) => onEvent({ type: 'model_token', modelId: seatModel, delta })
+            : undefined,
+          context,
+          stage: 'query',
+          toolNames: tools || [],
+          onToolInvocation: onEvent
+            ? (invocation) => onEvent({ type: 'tool_call', modelId: seatModel, invocation })
+            : undefined,
+          onStreamReset: onEvent ? () => onEvent({ type: 'stream_reset', modelId: seatModel }) : undefined,
+          ...(structured && { response_format: this.structuredOutputService.getResponseFormat(model, structured) }),
+        },
       );
+      if (!result.cached) {
+        this.latencyStats.record(model, result.latency_ms);
+      }
+
+      if (structured) {
+        // Answers that can't be brought into shape are dropped from the merge
+        const parsed = await this.structuredOutputService.parseOrRepair(
+          model,
+          result.response,
+          structured,
+          context,
+          pipeline.perModelTimeoutMs,
+        );
+        if (parsed.errors) {
+          return {
+            model,
+            answer: null,
+            latency_ms: Date.now() - startTime,
+            success: false,
+            error: `Answer does not match the response schema: ${parsed.errors.join('; ')}`,
+            error_code: 'schema_mismatch',
+            usage: result.usage,
+          };
+        }
+        return {
+          model,
+          answer: JSON.stringify(parsed.value, null, 2),
+          latency_ms: Date.now() - startTime - (result.queue_ms || 0),
+          ...(result.queue_ms && { queue_ms: result.queue_ms }),
+          success: true,
+          error: null,
+          usage: result.usage,
+          json: parsed.value,
+          ...(result.toolInvocations.length > 0 && { tool_calls: result.toolInvocations }),
+          ...(result.cached && { cached: true }),
+        };
+      }
 
       return {
         model,
         answer: result.response,
         latency_ms: result.latency_ms,
+        ...(result.queue_ms && { queue_ms: result.queue_ms }),
         success: true,
         error: null,
+        usage: result.usage,
+        ...(result.toolInvocations.length > 0 && { tool_calls: result.toolInvocations }),
+        ...(result.cached && { cached: true }),
       };
     } catch (error) {
       const latency_ms = Date.now() - startTime;
@@ -106,6 +533,7 @@ export class MergeService {
         latency_ms,
         success: false,
         error: errorMessage,
+        error_code: error instanceof ProviderError ? error.code : 'unknown',
       };
     }
   }
@@ -116,9 +544,20 @@ export class MergeService {
     customModels?: string[],
     customJudgeModel?: string,
     useFewerModels?: boolean,
+    options?: MergeOptions,
   ): Promise<InternalMergeResponseDto> {
-    const requestId = uuidv4();
+    const requestId = options?.requestId || uuidv4();
     const overallStartTime = Date.now();
+    const context: RequestContext = {
+      requestId,
+      usage: this.pricingService.createTracker(),
+      signal: options?.signal,
+      replay: options?.replay,
+      cacheMode: options?.cacheMode,
+    };
+    const profile = this.modeRegistry.resolve(mode);
+    mode = profile.name;
+    const pipeline = this.resolvePipeline(profile, options?.pipeline);
     const promptHash = crypto
       .createHash('sha256')
       .update(prompt)
@@ -174,10 +613,216 @@ export class MergeService {
       );
     }
 
+    // Unknown tool names are a client error - reject them before anything is spent
+    const tools = options?.tools || [];
+    this.toolRegistry.getDefinitions(tools);
+    const structured = options?.responseSchema
+      ? this.structuredOutputService.compile(options.responseSchema)
+      : undefined;
+
+    // Replays reuse the recorded attachments: nothing is fetched or extracted again
+    let attachments = options?.preparedAttachments;
+    if (!attachments && options?.attachments?.length) {
+      attachments = await this.attachmentService.prepare(options.attachments, context);
+    }
+
+    if (!options?.replay) {
+      context.recorder = this.cassetteService.startRecording({
+        requestId,
+        kind: 'merge',
+        prompt,
+        mode,
+        models: modelsToUse,
+        judgeModel: judgeModelToUse,
+        ...(options?.modelInfo && { modelInfo: Array.from(options.modelInfo.values()) }),
+        ...(options?.budget && { budget: options.budget }),
+        ...(attachments && { attachments }),
+        ...(tools.length > 0 && { tools }),
+        ...(options?.responseSchema && { responseSchema: options.responseSchema }),
+        ...(options?.history?.length && { history: options.history }),
+        // A generated seed is recorded so the replay shows the judge the same order
+        ...((options?.pipeline || pipeline.orderSeed !== undefined) && {
+          pipeline: { ...options?.pipeline, ...(pipeline.orderSeed !== undefined && { orderSeed: pipeline.orderSeed }) },
+        }),
+        ...(options?.judgePanel?.length && { judgePanel: options.judgePanel }),
+      });
+    }
+
+    // Images are described once up front when any recipient can't see them
+    if (
+      attachments?.images.length &&
+      [...modelsToUse, judgeModelToUse].some((model) => !this.attachmentService.supportsImages(model))
+    ) {
+      await this.attachmentService.describeImages(attachments, context);
+    }
+
+    // The judge and the debaters see the earlier turns as a transcript
+    const history = options?.history || [];
+    const conversation = history.length > 0 ? renderHistory(history) : undefined;
+
+    // Fit the council and debate to the caller's budget before anything is spent
+    let debateRoundsPlanned = pipeline.enableDebate ? pipeline.maxDebateRounds : 0;
+    let skipJudge = false;
+    if (options?.budget) {
+      const fittedPlan = this.budgetService.fitToBudget(
+        { models: modelsToUse, judgeModel: judgeModelToUse, debateRounds: debateRoundsPlanned, skipJudge },
+        prompt.length +
+          this.attachmentService.getTextLength(attachments) +
+          this.getModelSystemPrompt(mode).length +
+          (conversation?.length || 0),
+        options.budget,
+      );
+      modelsToUse = fittedPlan.plan.models;
+      debateRoundsPlanned = fittedPlan.plan.debateRounds;
+      skipJudge = fittedPlan.plan.skipJudge;
+      context.budget = this.budgetService.createGuard(options.budget, context.usage, fittedPlan);
+
+      this.logger.log(
+        `[${requestId}] Budget plan: ~${fittedPlan.estimate.tokens} tokens, ~$${fittedPlan.estimate.costUsd.toFixed(4)}` +
+          (fittedPlan.droppedModels.length > 0 ? `, dropped models: ${fittedPlan.droppedModels.join(', ')}` : '') +
+          (fittedPlan.skippedStages.length > 0 ? `, skipped stages: ${fittedPlan.skippedStages.join(', ')}` : ''),
+      );
+    }
+
+    // Debate rounds refine free text - structured answers are merged as returned
+    if (structured && debateRoundsPlanned > 0) {
+      this.logger.log(`[${requestId}] Response schema set - skipping debate`);
+      debateRoundsPlanned = 0;
+    }
+    // Structured answers are compared field by field instead (disagreements)
+    if (structured && pipeline.analyzeConsensus) {
+      this.logger.log(`[${requestId}] Response schema set - skipping consensus analysis`);
+      pipeline.analyzeConsensus = false;
+    }
+    pipeline.maxDebateRounds = debateRoundsPlanned;
+    pipeline.enableDebate = debateRoundsPlanned > 0;
+
+    // Structured merges have a single judge; the panel's field-level view is the disagreements
+    let judgePanel = options?.judgePanel || [];
+    if (structured && judgePanel.length > 0) {
+      this.logger.log(`[${requestId}] Response schema set - ignoring the judge panel`);
+      judgePanel = [];
+    }
+    if (judgePanel.length > 0 && pipeline.judgeMode !== 'synthesize') {
+      pipeline.panelAggregation ??= this.configService.get('judge_panel').aggregation;
+    }
+
+    const onEvent = options?.onEvent;
+    onEvent?.({
+      type: 'start',
+      requestId,
+      models: modelsToUse,
+      judgeModel: judgeModelToUse,
+    });
+    const emitModelComplete = (result: ModelCallResult) =>
+      onEvent?.({
+        type: 'model_complete',
+        result: this.toModelResult(result, options?.modelInfo),
+      });
+
+    // A judge started before the debate is superseded once the debate finishes. When
+    // streaming its tokens would be discarded, and under a budget it would be paid for
+    // twice, so in those cases only start it speculatively if no debate will follow.
+    // The consensus analysis needs every answer, so the judge waits for it. Scoring judges
+    // rank whole councils, so an early judge over the first answers can't pick the best one
+    const allowSpeculativeJudge =
+      !skipJudge &&
+      !pipeline.analyzeConsensus &&
+      pipeline.judgeMode === 'synthesize' &&
+      (debateRoundsPlanned === 0 || (!onEvent && !options?.budget));
+    // Tool runs and scores of the judge whose answer is used (the latest one started)
+    let judgeToolCalls: ToolInvocation[] = [];
+    let judgeScoring: { value?: JudgeScoring } = {};
+    let judgePanelOutcome: { value?: PanelOutcome } = {};
+    // Claim clusters for the judge, keyed by the model ids of the answers it receives
+    let judgeConsensus: ClaimCluster[] | undefined;
+    const startJudge = (
+      answers: Array<{ model: string; answer: string }>,
+      rounds?: Array<{ round: number; judgeFeedback: string; answers: Array<{ model: string; answer: string }> }>,
+    ) => {
+      const toolCalls: ToolInvocation[] = (judgeToolCalls = []);
+      const scoring: { value?: JudgeScoring } = (judgeScoring = {});
+      const panel: { value?: PanelOutcome } = (judgePanelOutcome = {});
+      const judgeOptions = {
+        onToken: onEvent ? (delta: string) => onEvent({ type: 'judge_token', delta }) : undefined,
+        onStreamReset: onEvent ? () => onEvent({ type: 'stream_reset' }) : undefined,
+        context,
+        attachments,
+        tools,
+        conversation,
+        instructions: this.getJudgeInstructions(profile),
+        consensus: judgeConsensus,
+        ...(pipeline.orderSeed !== undefined && {
+          ordering: { seed: pipeline.orderSeed, permutations: pipeline.orderPermutations },
+        }),
+        timeoutMs: pipeline.judgeTimeoutMs,
+        onToolInvocation: (invocation: ToolInvocation) => {
+          toolCalls.push(invocation);
+          onEvent?.({ type: 'tool_call', modelId: judgeModelToUse, invocation });
+        },
+      };
+      // Structured merges resolve to the merged object's JSON text, like a council answer
+      const structuredAnswers = structured ? this.getStructuredAnswers(answers, successfulResults) : [];
+      // A panel scores and its rankings are aggregated, or it synthesizes and the judge reconciles
+      const score = () =>
+        judgePanel.length > 0
+          ? this.judgePanelService
+              .score(prompt, answers, judgePanel, pipeline.panelAggregation, judgeOptions)
+              .then((result) => {
+                panel.value = result.outcome;
+                return result.scoring;
+              })
+          : this.judgeService.scoreAnswers(prompt, answers, judgeModelToUse, judgeOptions);
+      const promise = pipeline.judgeMode !== 'synthesize'
+        ? // Scoring judges rank the answers as they are; pick-best returns the winner unchanged
+          score().then((result) => {
+            scoring.value = result;
+            const best = answers.find((answer) => answer.model === result.scores[0].model);
+            if (pipeline.judgeMode === 'score-only') {
+              return '';
+            }
+            judgeOptions.onToken?.(best.answer);
+            return best.answer;
+          })
+        : structured
+        ? this.judgeService
+            .judgeAndMergeJson(
+              prompt,
+              structuredAnswers,
+              structured,
+              this.structuredOutputService.findDisagreements(structuredAnswers),
+              judgeModelToUse,
+              judgeOptions,
+            )
+            .then((value) => JSON.stringify(value, null, 2))
+        : judgePanel.length > 0
+        ? this.judgePanelService
+            .synthesize(prompt, answers, rounds, judgePanel, judgeModelToUse, judgeOptions)
+            .then((result) => {
+              panel.value = result.outcome;
+              return result.answer;
+            })
+        : this.judgeService.judgeAndMerge(prompt, answers, rounds, judgeModelToUse, false, judgeOptions);
+      // A cancelled request abandons the judge without awaiting it
+      promise.catch(() => undefined);
+      return promise;
+    };
+
     // Call all models in parallel
     this.logger.log(`[${requestId}] Starting parallel model calls for ${modelsToUse.length} models...`);
-    const modelCallPromises = modelsToUse.map((model) =>
-      this.callSingleModel(model, prompt, mode),
+    // Each seat gets its own signal so stragglers can be cancelled without the request
+    const seatControllers = modelsToUse.map(() => new AbortController());
+    context.signal?.addEventListener('abort', () => seatControllers.forEach((controller) => controller.abort()));
+    const modelCallPromises = modelsToUse.map((model, index) =>
+      this.callSingleModel(
+        model,
+        prompt,
+        mode,
+        { ...context, signal: seatControllers[index].signal },
+        onEvent,
+        { pipeline, attachments, tools, structured, history },
+        options?.modelInfo?.get(model),
+      ),
     );
 
     // OPTIMIZATION: Start judge as soon as we have enough successful responses
@@ -187,43 +832,95 @@ export class MergeService {
     const modelResults: ModelCallResult[] = [];
     let judgeStarted = false;
 
+    // Seats the completion policy stopped waiting for; their answers no longer count
+    const excludedModels: ExcludedModelAnswer[] = [];
+    let councilClosed = false;
+    const closeCouncil = ({ pending, reason }: CouncilCompletion) => {
+      councilClosed = true;
+      if (pending.length === 0) {
+        return;
+      }
+
+      const status = pipeline.stragglers === 'cancel' ? 'cancelled' : 'running';
+      this.logger.log(
+        `[${requestId}] Completion policy met (${reason}) - ${status === 'cancelled' ? 'cancelling' : 'not waiting for'} ${pending.map((index) => modelsToUse[index]).join(', ')}`,
+      );
+      if (status === 'running') {
+        this.resultStore.open(requestId);
+      }
+      pending.forEach((index) => {
+        excludedModels.push({ model: modelsToUse[index], reason, status });
+        if (status === 'cancelled') {
+          seatControllers[index].abort();
+          return;
+        }
+        // Late answers are attached to the stored result (GET /api/v1/query/:requestId)
+        modelCallPromises[index]
+          .then((result) => {
+            this.logger.log(`[${requestId}] Straggler ${result.model} finished after the response`);
+            this.loggerService.logModelResult({
+              request_id: requestId,
+              model: result.model,
+              latency_ms: result.latency_ms,
+              queue_ms: result.queue_ms,
+              success: result.success,
+              error: result.error,
+            });
+            // The straggler's calls were billed to the request's tracker after the response was built
+            const attached = this.resultStore.attachLateResult(
+              requestId,
+              { ...this.toModelResult(result, options?.modelInfo), late: true },
+              context.usage.getSummary(),
+              context.budget?.getReport(),
+            );
+            if (!attached) {
+              this.logger.log(`[${requestId}] No stored result for straggler ${result.model} - answer dropped`);
+            }
+          })
+          .catch((error) => this.logger.warn(`[${requestId}] Straggler ${modelsToUse[index]} failed: ${error.message}`));
+      });
+    };
+
     // Helper to start judge when we have enough results
     const maybeStartJudge = () => {
       if (
         !judgeStarted &&
-        successfulResults.length >= this.minModelsForJudge &&
-        this.enableEarlyJudge
+        successfulResults.length >= pipeline.minModelsForJudge &&
+        pipeline.enableEarlyJudge &&
+        allowSpeculativeJudge
       ) {
         judgeStarted = true;
         judgeStartTime = Date.now();
         this.logger.log(
           `[${requestId}] Starting early judge with ${successfulResults.length} successful models...`,
         );
-        judgePromise = this.judgeService.judgeAndMerge(
-          prompt,
+        judgePromise = startJudge(
           successfulResults.map((r) => ({
             model: r.model,
             answer: r.answer!,
           })),
-          undefined,
-          judgeModelToUse,
         );
       }
     };
 
     // Process results as they come in (early judge optimization)
-    if (this.enableEarlyJudge) {
+    if (pipeline.enableEarlyJudge) {
       // Wrap each promise to track completion
       const wrappedPromises = modelCallPromises.map(async (promise, index) => {
         try {
           const result = await promise;
+          if (councilClosed) {
+            return result;
+          }
           modelResults.push(result);
+          emitModelComplete(result);
 
           // Log immediately
           this.loggerService.logModelResult({
             request_id: requestId,
             model: result.model,
             latency_ms: result.latency_ms,
+            queue_ms: result.queue_ms,
             success: result.success,
             error: result.error,
           });
@@ -236,6 +933,9 @@ export class MergeService {
 
           return result;
         } catch (error) {
+          if (councilClosed) {
+            throw error;
+          }
           const errorResult: ModelCallResult = {
             model: modelsToUse[index], // Use user-selected models, not default models
             answer: null,
@@ -244,6 +944,7 @@ export class MergeService {
             error: error instanceof Error ? error.message : 'Unknown error',
           };
           modelResults.push(errorResult);
+          emitModelComplete(errorResult);
 
           this.loggerService.logModelResult({
             request_id: requestId,
@@ -257,14 +958,16 @@ export class MergeService {
         }
       });
 
-      // Wait for all to complete
-      await Promise.all(wrappedPromises);
+      // Wait for the council, as far as the completion policy asks
+      closeCouncil(await this.awaitCouncil(wrappedPromises, pipeline));
+      this.throwIfCancelled(context, overallStartTime);
 
       // If judge wasn't started early, start it now with all successful results
       if (!judgeStarted) {
         if (successfulResults.length === 0) {
           this.logger.error(`[${requestId}] All model calls failed`);
           const totalLatency = Date.now() - overallStartTime;
+          const usageSummary = context.usage.getSummary();
 
           this.loggerService.logJudgeResult({
             request_id: requestId,
@@ -278,12 +981,16 @@ export class MergeService {
             request_id: requestId,
             total_latency_ms: totalLatency,
             success: false,
+            total_tokens: usageSummary.totalTokens,
+            cost_usd: usageSummary.costUsd,
           });
 
           throw new HttpException(
             {
               merged_answer: null,
               model_answers: modelResults,
+              usage: usageSummary,
+              ...(context.budget && { budget: context.budget.getReport() }),
               meta: {
                 total_latency_ms: totalLatency,
                 timestamp: new Date().toISOString(),
@@ -294,22 +1001,30 @@ export class MergeService {
           );
         }
 
-        judgeStartTime = Date.now();
-        this.logger.log(`[${requestId}] Calling judge model: ${judgeModelToUse}...`);
-        judgePromise = this.judgeService.judgeAndMerge(
-          prompt,
-          successfulResults.map((r) => ({
-            model: r.model,
-            answer: r.answer!,
-          })),
-          undefined,
-          judgeModelToUse,
-        );
+        if (allowSpeculativeJudge) {
+          judgeStartTime = Date.now();
+          this.logger.log(`[${requestId}] Calling judge model: ${judgeModelToUse}...`);
+          judgePromise = startJudge(
+            successfulResults.map((r) => ({
+              model: r.model,
+              answer: r.answer!,
+            })),
+          );
+        }
       }
     } else {
-      // Original behavior: wait for all models
-      const allResults = await Promise.all(modelCallPromises);
+      // Original behavior: wait for all models (or as many as the completion policy asks)
+      const settledResults: ModelCallResult[] = [];
+      closeCouncil(
+        await this.awaitCouncil(
+          modelCallPromises.map((promise, index) => promise.then((result) => (settledResults[index] = result))),
+          pipeline,
+        ),
+      );
+      const allResults = settledResults.filter(Boolean);
+      this.throwIfCancelled(context, overallStartTime);
       modelResults.push(...allResults);
+      allResults.forEach(emitModelComplete);
 
       // Log model results
       modelResults.forEach((result) => {
@@ -317,6 +1032,7 @@ export class MergeService {
           request_id: requestId,
           model: result.model,
           latency_ms: result.latency_ms,
+          queue_ms: result.queue_ms,
           success: result.success,
           error: result.error,
         });
@@ -329,6 +1045,7 @@ export class MergeService {
       if (successfulResults.length === 0) {
         this.logger.error(`[${requestId}] All model calls failed`);
         const totalLatency = Date.now() - overallStartTime;
+        const usageSummary = context.usage.getSummary();
 
         this.loggerService.logJudgeResult({
           request_id: requestId,
@@ -342,12 +1059,16 @@ export class MergeService {
           request_id: requestId,
           total_latency_ms: totalLatency,
           success: false,
+          total_tokens: usageSummary.totalTokens,
+          cost_usd: usageSummary.costUsd,
         });
 
         throw new HttpException(
           {
             merged_answer: null,
             model_answers: modelResults,
+            usage: usageSummary,
+            ...(context.budget && { budget: context.budget.getReport() }),
             meta: {
               total_latency_ms: totalLatency,
               timestamp: new Date().toISOString(),
@@ -358,32 +1079,75 @@ export class MergeService {
         );
       }
 
-      judgeStartTime = Date.now();
-      this.logger.log(`[${requestId}] Calling judge model (${judgeModelToUse})...`);
-      judgePromise = this.judgeService.judgeAndMerge(
-        prompt,
-        successfulResults.map((r) => ({
-          model: r.model,
-          answer: r.answer!,
-        })),
-        undefined,
-        judgeModelToUse,
-      );
+      if (allowSpeculativeJudge) {
+        judgeStartTime = Date.now();
+        this.logger.log(`[${requestId}] Calling judge model (${judgeModelToUse})...`);
+        judgePromise = startJudge(
+          successfulResults.map((r) => ({
+            model: r.model,
+            answer: r.answer!,
+          })),
+        );
+      }
+    }
+
+    // Claims the council agrees and disagrees on, analyzed while the debate runs
+    let consensusPromise: Promise<ConsensusAnalysis | null> | null = null;
+    if (pipeline.analyzeConsensus && successfulResults.length >= 2) {
+      if (context.budget?.isExceeded()) {
+        this.logger.warn(`[${requestId}] Budget reached - skipping consensus analysis`);
+        context.budget.skip('consensus');
+      } else {
+        consensusPromise = this.consensusService
+          .analyze(
+            prompt,
+            successfulResults.map((r) => ({ model: r.model, answer: r.answer! })),
+            { context, conversation, model: judgeModelToUse },
+          )
+          .then((analysis) => {
+            onEvent?.({ type: 'consensus', consensus: analysis });
+            return analysis;
+          })
+          .catch((error) => {
+            this.logger.warn(`[${requestId}] Consensus analysis failed: ${error.message}`);
+            return null;
+          });
+      }
     }
 
     // OPTIMIZATION: Conduct iterative debate if enabled
     let debateRounds: Array<{ round: number; judgeFeedback: string; answers: Array<{ model: string; answer: string }> }> | undefined;
+    // Debate refinements go to the model that actually answered each seat
     let finalAnswersForJudge = successfulResults.map((r) => ({
-      model: r.model,
+      model: r.answered_by || r.model,
       answer: r.answer!,
     }));
 
-    if (this.enableDebate && successfulResults.length >= 2) {
+    if (debateRoundsPlanned > 0 && successfulResults.length >= 2) {
       try {
         this.logger.log(`[${requestId}] Starting iterative debate...`);
         const debateResult = await this.debateService.conductIterativeDebate(
           prompt,
           finalAnswersForJudge,
+          {
+            context,
+            maxRounds: debateRoundsPlanned,
+            conversation,
+            timeoutMs: pipeline.debateTimeoutMs,
+            feedbackTimeoutMs: pipeline.judgeFeedbackTimeoutMs,
+            orderSeed: pipeline.orderSeed,
+            onRoundComplete: (round) =>
+              onEvent?.({
+                type: 'debate_round',
+                round: round.round,
+                judgeFeedback: round.judgeFeedback,
+                answers: round.answers.map((a) => ({
+                  modelId: a.model,
+                  content: a.answer,
+                  latency: a.latency_ms / 1000,
+                })),
+              }),
+          },
         );
 
         debateRounds = debateResult.debateRounds;
@@ -398,75 +1162,147 @@ export class MergeService {
         );
         // Continue with initial answers if debate fails
       }
+      this.throwIfCancelled(context, overallStartTime);
+    }
+
+    const consensus = consensusPromise ? await consensusPromise : null;
+    this.throwIfCancelled(context, overallStartTime);
+    if (consensus) {
+      // The judge sees the answerers' ids once fallbacks answered a seat (or the debate refined them)
+      const answerers = new Map(successfulResults.map((r) => [r.model, r.answered_by || r.model]));
+      const toAnswerers = (models: string[]) => models.map((model) => answerers.get(model) || model);
+      judgeConsensus = consensus.claims.map((cluster) => ({
+        ...cluster,
+        supportedBy: toAnswerers(cluster.supportedBy),
+        contradictedBy: toAnswerers(cluster.contradictedBy),
+      }));
     }
 
     // Wait for judge to complete (or start if not started early)
     let mergedAnswer: string | null = null;
     let judgeLatency = 0;
 
-    // If judge wasn't started early, start it now with final answers
-    if (!judgePromise) {
+    // score-only never answers, not even when the judge fails
+    const fallbackAnswer =
+      pipeline.judgeMode === 'score-only'
+        ? null
+        : finalAnswersForJudge[0]?.answer || successfulResults[0]?.answer || null;
+    const judgeNeeded = !judgePromise || (debateRounds && debateRounds.length > 0);
+
+    if (judgeNeeded && (skipJudge || context.budget?.isExceeded())) {
+      // Budget reached - answer with the best available council answer instead
+      this.logger.warn(`[${requestId}] Budget reached - skipping judge, using best available answer`);
+      context.budget?.skip('judge');
+      judgePromise = null;
+    } else if (!judgePromise) {
+      // If judge wasn't started early, start it now with final answers
       judgeStartTime = Date.now();
       this.logger.log(`[${requestId}] Calling judge model with final answers...`);
-      judgePromise = this.judgeService.judgeAndMerge(
-        prompt,
-        finalAnswersForJudge,
-        debateRounds,
-      );
+      judgePromise = startJudge(finalAnswersForJudge, debateRounds);
     } else if (debateRounds && debateRounds.length > 0) {
       // Judge was started early, but we need to update it with final debate answers
       judgeStartTime = Date.now();
       this.logger.log(`[${requestId}] Calling judge with debated answers...`);
-      judgePromise = this.judgeService.judgeAndMerge(
-        prompt,
-        finalAnswersForJudge,
-        debateRounds,
-      );
+      judgePromise = startJudge(finalAnswersForJudge, debateRounds);
     }
 
-    try {
-      mergedAnswer = await judgePromise!;
-      judgeLatency = Date.now() - (judgeStartTime || Date.now());
+    if (!judgePromise) {
+      mergedAnswer = fallbackAnswer;
+    } else {
+      try {
+        mergedAnswer = await judgePromise;
+        judgeLatency = Date.now() - (judgeStartTime || Date.now());
 
-      this.loggerService.logJudgeResult({
-        request_id: requestId,
-        judge_model: judgeModelToUse,
-        latency_ms: judgeLatency,
-        success: true,
-        error: null,
-      });
-    } catch (error) {
-      judgeLatency = Date.now() - (judgeStartTime || Date.now());
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error';
+        this.loggerService.logJudgeResult({
+          request_id: requestId,
+          judge_model: judgeModelToUse,
+          latency_ms: judgeLatency,
+          success: true,
+          error: null,
+        });
+        onEvent?.({
+          type: 'judge_complete',
+          judgeModel: judgeModelToUse,
+          success: true,
+          latency: judgeLatency / 1000,
+        });
+      } catch (error) {
+        judgeLatency = Date.now() - (judgeStartTime || Date.now());
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
 
-      this.logger.warn(
-        `[${requestId}] Judge model failed: ${errorMessage}. Using fallback.`,
-      );
+        this.logger.warn(
+          `[${requestId}] Judge model failed: ${errorMessage}. Using fallback.`,
+        );
 
-      this.loggerService.logJudgeResult({
-        request_id: requestId,
-        judge_model: judgeModelToUse,
-        latency_ms: judgeLatency,
-        success: false,
-        error: errorMessage,
-      });
+        this.loggerService.logJudgeResult({
+          request_id: requestId,
+          judge_model: judgeModelToUse,
+          latency_ms: judgeLatency,
+          success: false,
+          error: errorMessage,
+        });
+        onEvent?.({
+          type: 'judge_complete',
+          judgeModel: judgeModelToUse,
+          success: false,
+          latency: judgeLatency / 1000,
+        });
 
-      // Fallback: use best answer from final debate or first successful
-      mergedAnswer = finalAnswersForJudge[0]?.answer || successfulResults[0]?.answer || null;
+        // Fallback: use best answer from final debate or first successful
+        mergedAnswer = fallbackAnswer;
+      }
     }
+    this.throwIfCancelled(context, overallStartTime);
 
     const totalLatency = Date.now() - overallStartTime;
+    const usageSummary = context.usage.getSummary();
 
     this.loggerService.logRequestComplete({
       request_id: requestId,
       total_latency_ms: totalLatency,
       success: true,
+      total_tokens: usageSummary.totalTokens,
+      cost_usd: usageSummary.costUsd,
     });
 
+    // The judges saw the answerers' ids; results are reported by seat
+    const seatOf = (model: string) =>
+      successfulResults.find((r) => (r.answered_by || r.model) === model)?.model || model;
+
     return {
       merged_answer: mergedAnswer,
       model_answers: modelResults,
+      usage: usageSummary,
+      ...(context.budget && { budget: context.budget.getReport() }),
+      ...(judgePromise && judgeToolCalls.length > 0 && { judge_tool_calls: judgeToolCalls }),
+      ...(structured && {
+        // The merged answer is the judge's object, or the fallback council object
+        merged_json: mergedAnswer ? JSON.parse(mergedAnswer) : null,
+        disagreements: this.structuredOutputService.findDisagreements(
+          this.getStructuredAnswers(successfulResults, successfulResults),
+        ),
+      }),
+      pipeline,
+      ...(excludedModels.length > 0 && { excluded_models: excludedModels }),
+      ...(consensus && { consensus }),
+      ...(judgePromise &&
+        judgeScoring.value && {
+          judge_scoring: {
+            ...judgeScoring.value,
+            mode: pipeline.judgeMode,
+            scores: judgeScoring.value.scores.map((score) => ({ ...score, model: seatOf(score.model) })),
+          },
+        }),
+      ...(judgePromise &&
+        judgePanelOutcome.value && {
+          judge_panel: {
+            ...judgePanelOutcome.value,
+            judges: judgePanelOutcome.value.judges.map((judge) =>
+              judge.ranking ? { ...judge, ranking: judge.ranking.map(seatOf) } : judge,
+            ),
+          },
+        }),
       meta: {
         total_latency_ms: totalLatency,
         timestamp: new Date().toISOString(),
@@ -477,11 +1313,25 @@ export class MergeService {
 
   async query(
     prompt: string,
-    mode: 'comprehensive' | 'concise' | 'technical' | 'creative' | 'general' | 'query' | 'image-generation' | 'deep-research' | undefined,
+    mode: string | undefined,
     queryModels: QueryModelDto[],
     judgeModel: JudgeModelDto,
+    options?: Pick<
+      MergeOptions,
+      | 'onEvent'
+      | 'budget'
+      | 'requestId'
+      | 'signal'
+      | 'attachments'
+      | 'tools'
+      | 'responseSchema'
+      | 'cacheMode'
+      | 'history'
+      | 'pipeline'
+      | 'judgePanel'
+    >,
   ): Promise<MergeResponseDto> {
-    const requestId = uuidv4();
+    const requestId = options?.requestId || uuidv4();
     const overallStartTime = Date.now();
 
     // Normalize "query" mode to "general"
@@ -493,11 +1343,18 @@ export class MergeService {
     if (mode === 'deep-research') {
       this.logger.log(`[${requestId}] Processing deep research request`);
       
-      const researchResult = await this.deepResearchService.performDeepResearch(
-        prompt,
-        queryModels,
-        judgeModel,
-      );
+      // Same request id and signal as the text pipeline, so the cancel endpoint reaches it
+      const researchResult = await this.deepResearchService
+        .performDeepResearch(prompt, queryModels, judgeModel, requestId, {
+          budget: options?.budget,
+          signal: options?.signal,
+        })
+        .catch((error) => {
+          if (options?.signal?.aborted) {
+            throw new HttpException('Request cancelled', CLIENT_CLOSED_REQUEST);
+          }
+          throw error;
+        });
 
       // Transform to response format
       const modelResults: ModelResult[] = researchResult.modelAnswers.map(
@@ -528,6 +1385,8 @@ export class MergeService {
           url: r.url,
           snippet: r.snippet,
         })),
+        usage: researchResult.usage,
+        ...(researchResult.budget && { budget: researchResult.budget }),
       };
     }
 
@@ -565,9 +1424,7 @@ export class MergeService {
     // Extract model IDs and create mapping for response
     // UI sends the models to use - we only use those, no defaults
     const modelIds = queryModels.map((m) => m.id);
-    const modelMap = new Map(
-      queryModels.map((m) => [m.id, { name: m.name, provider: m.provider }]),
-    );
+    const modelMap = new Map(queryModels.map((m) => [m.id, m]));
 
     if (modelIds.length === 0) {
       throw new HttpException(
@@ -576,51 +1433,196 @@ export class MergeService {
       );
     }
 
-    // Map mode to internal mode format
-    const internalMode =
-      mode === 'technical'
-        ? 'coding'
-        : mode === 'general' || mode === 'creative' || !mode
-          ? 'general'
-          : 'general';
+    // Identical questions to the same council are answered from the cache without any model call
+    const cacheKey = this.responseCache.buildKey('merge', {
+      prompt,
+      mode,
+      queryModels,
+      judgeModel,
+      attachments: options?.attachments,
+      tools: options?.tools,
+      responseSchema: options?.responseSchema,
+      budget: options?.budget,
+      history: options?.history,
+      pipeline: options?.pipeline,
+      judgePanel: options?.judgePanel,
+    });
+    // A cached merge has no model calls to record, so recording runs recompute (and refresh the entry)
+    const mergeCacheMode =
+      this.cassetteService.isRecording() && options?.cacheMode !== 'bypass' ? 'refresh' : options?.cacheMode;
+    const cached = this.responseCache.get<MergeResponseDto>('merge', cacheKey, mergeCacheMode);
+    if (cached) {
+      this.logger.log(`[${requestId}] Serving merge result from cache`);
+      return {
+        ...cached,
+        requestId,
+        modelResults: cached.modelResults.map(({ usage, ...result }) => ({ ...result, cached: true })),
+        totalLatency: (Date.now() - overallStartTime) / 1000,
+        usage: this.pricingService.createTracker().getSummary(), // Nothing was billed for this request
+        budget: undefined, // No budget was consumed either
+        cached: true,
+      };
+    }
 
     // Call internal merge method with UI-provided models only
     const internalResult = await this.merge(
       prompt,
-      internalMode,
+      mode,
       modelIds, // Use only UI-provided models
       judgeModel.id,
       false,
-    );
+      {
+        modelInfo: modelMap,
+        onEvent: options?.onEvent,
+        budget: options?.budget,
+        requestId,
+        signal: options?.signal,
+        attachments: options?.attachments,
+        tools: options?.tools,
+        responseSchema: options?.responseSchema,
+        cacheMode: options?.cacheMode,
+        history: options?.history,
+        pipeline: options?.pipeline,
+        judgePanel: options?.judgePanel,
+      },
+    ).catch((error) => {
+      this.resultStore.discard(requestId);
+      throw error;
+    });
 
-    // Transform response to new API format
-    const modelResults: ModelResult[] = internalResult.model_answers.map(
-      (answer) => {
-        const modelInfo = modelMap.get(answer.model);
-        return {
-          modelName: modelInfo?.name || answer.model,
-          modelId: answer.model,
-          provider: modelInfo?.provider || 'Unknown',
-          status: answer.success ? 'success' : 'failed',
-          latency: answer.latency_ms / 1000, // Convert ms to seconds
-          content: answer.answer || '',
-          ...(answer.error && { errorMessage: answer.error }),
-        };
+    const response = this.toMergeResponse(internalResult, modelMap, judgeModel.name);
+    // Transient failures (and councils cut short) must not be served again for the whole TTL
+    if (!response.excludedModels && response.modelResults.every((result) => result.status === 'success')) {
+      this.responseCache.set('merge', cacheKey, response, mergeCacheMode);
+    }
+    if (response.excludedModels?.some((excluded) => excluded.status === 'running')) {
+      this.resultStore.save(requestId, response);
+    }
+    return response;
+  }
+
+  /**
+   * Re-run a recorded merge with every model call served from its cassette.
+   * The replay diverges (and fails) as soon as any call's input differs from the recording.
+   */
+  async replay(recordedRequestId: string): Promise<MergeResponseDto> {
+    const player = this.cassetteService.createPlayer(recordedRequestId);
+    const header = player.cassette.header;
+    if (header.kind !== 'merge') {
+      throw new HttpException(
+        `Cassette ${recordedRequestId} was recorded by a ${header.kind} run and can't be replayed through merge`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    this.logger.log(`Replaying cassette ${recordedRequestId} (${player.cassette.calls.length} recorded calls)`);
+    const modelMap = new Map((header.modelInfo || []).map((model) => [model.id, model]));
+    const requestId = uuidv4();
+    const internalResult = await this.merge(
+      header.prompt,
+      header.mode,
+      header.models,
+      header.judgeModel,
+      false,
+      {
+        modelInfo: modelMap,
+        budget: header.budget,
+        requestId,
+        replay: player,
+        preparedAttachments: header.attachments,
+        tools: header.tools,
+        responseSchema: header.responseSchema,
+        history: header.history,
+        pipeline: header.pipeline,
+        judgePanel: header.judgePanel,
       },
-    );
+    ).finally(() => this.resultStore.discard(requestId)); // Replays are not stored
+
+    return this.toMergeResponse(internalResult, modelMap, header.judgeModel);
+  }
 
-    // Get judge model name
-    const judgeModelName = judgeModel.name;
+  private toMergeResponse(
+    internalResult: InternalMergeResponseDto,
+    modelMap: Map<string, QueryModelDto>,
+    judgeModelName: string,
+  ): MergeResponseDto {
+    // Transform response to new API format
+    const scoring = internalResult.judge_scoring;
+    const modelResults: ModelResult[] = internalResult.model_answers.map((answer) => {
+      const result = this.toModelResult(answer, modelMap);
+      const score = scoring?.scores.find((entry) => entry.model === answer.model);
+      if (!score) {
+        return result;
+      }
+      const { model, ...judgeScore } = score;
+      return { ...result, judgeScore };
+    });
 
     return {
+      requestId: internalResult.meta.request_id,
       mergedAnswer: internalResult.merged_answer || '',
       modelResults,
       totalLatency: internalResult.meta.total_latency_ms / 1000, // Convert ms to seconds
       judgeModelUsed: judgeModelName,
       mode: 'text',
+      usage: internalResult.usage,
+      ...(internalResult.budget && { budget: internalResult.budget }),
+      ...(internalResult.judge_tool_calls?.length && { judgeToolCalls: internalResult.judge_tool_calls }),
+      ...(internalResult.merged_json !== undefined && {
+        mergedJson: internalResult.merged_json,
+        disagreements: internalResult.disagreements,
+      }),
+      pipeline: internalResult.pipeline,
+      ...(internalResult.excluded_models && {
+        excludedModels: internalResult.excluded_models.map((excluded) => ({
+          modelId: excluded.model,
+          reason: excluded.reason,
+          status: excluded.status,
+        })),
+      }),
+      ...(internalResult.consensus && { consensus: internalResult.consensus }),
+      ...(scoring && {
+        judgement: {
+          mode: scoring.mode,
+          ranking: scoring.scores.map((score) => score.model),
+          rationale: scoring.rationale,
+          scale: scoring.scale,
+          ...(scoring.mode === 'pick-best' && { selectedModel: scoring.scores[0].model }),
+        },
+      }),
+      ...(internalResult.judge_panel && {
+        judgePanel: {
+          judges: internalResult.judge_panel.judges.map((judge) => ({
+            modelId: judge.model,
+            success: judge.success,
+            latency: judge.latency_ms / 1000,
+            ...(judge.ranking && { ranking: judge.ranking }),
+            ...(judge.error && { errorMessage: judge.error }),
+          })),
+          aggregation: internalResult.judge_panel.aggregation,
+          ...(internalResult.judge_panel.metaJudge && { metaJudge: internalResult.judge_panel.metaJudge }),
+          disagreement: internalResult.judge_panel.disagreement,
+          sharpDisagreement: internalResult.judge_panel.sharpDisagreement,
+          ...(internalResult.judge_panel.contestedClaims && {
+            contestedClaims: internalResult.judge_panel.contestedClaims,
+          }),
+        },
+      }),
     };
   }
 
+  /**
+   * Result of a merge whose stragglers were left to finish in the background,
+   * with their answers once in.
+   */
+  getStoredResult(requestId: string): MergeResponseDto {
+    const stored = this.resultStore.get(requestId);
+    if (!stored) {
+      throw new HttpException(`No stored result for request id ${requestId}`, HttpStatus.NOT_FOUND);
+    }
+    return stored;
+  }
+
   async generateImages(
     prompt: string,
     imageModels: Array<{ id: string; name: string; provider: string }>,
@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ValidationArguments,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator';
+import { ConfigService } from '../config/config.service';
+
+const TIMEOUT_FIELDS = ['perModelTimeoutMs', 'judgeTimeoutMs', 'debateTimeoutMs', 'judgeFeedbackTimeoutMs', 'deadlineMs'];
+
+/**
+ * Checks a request's `pipeline` overrides against the server-side maximums in
+ * pipeline_limits. Needs class-validator's container to be Nest's (see useContainer in main.ts).
+ */
+@ValidatorConstraint({ name: 'pipelineLimits' })
+@Injectable()
+export class PipelineLimitsConstraint implements ValidatorConstraintInterface {
+  private readonly problems = new WeakMap<object, string[]>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  validate(value: unknown, args: ValidationArguments): boolean {
+    if (!value || typeof value !== 'object') {
+      return true; // Shape errors are reported by the DTO's own validators
+    }
+
+    const pipeline = value as Record<string, unknown>;
+    const limits = this.configService.get('pipeline_limits');
+    const exceeds = (field: string, max: number) => typeof pipeline[field] === 'number' && pipeline[field] > max;
+    const problems = [
+      ...(exceeds('maxDebateRounds', limits.max_debate_rounds)
+        ? [`pipeline.maxDebateRounds cannot exceed ${limits.max_debate_rounds}`]
+        : []),
+      ...TIMEOUT_FIELDS.filter((field) => exceeds(field, limits.max_timeout_ms)).map(
+        (field) => `pipeline.${field} cannot exceed ${limits.max_timeout_ms}`,
+      ),
+      ...(exceeds('maxTokens', limits.max_tokens) ? [`pipeline.maxTokens cannot exceed ${limits.max_tokens}`] : []),
+    ];
+    if (problems.length === 0) {
+      return true;
+    }
+
+    this.problems.set(args.object, problems);
+    return false;
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    return this.problems.get(args.object)?.join('; ') || 'pipeline exceeds the server limits';
+  }
+}
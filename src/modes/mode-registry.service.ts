@@ -0,0 +1,170 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigService, ModesConfig } from '../config/config.service';
+
+export interface ModeProfile {
+  name: string;
+  description: string;
+  councilSystemPrompt: string;
+  judgeInstructions: string | null; // Added to the judge's synthesis instructions
+  temperature: number; // Council answers
+  targetWords: number | null; // Length target for council answers and the merged answer
+  maxTokens: number | null; // Cap on council answers
+  debate: boolean; // Whether debate rounds run (when enabled in config.json)
+  source: 'builtin' | 'file';
+}
+
+// Entry of the modes file (snake_case like config.json)
+interface ModeFileEntry {
+  name: string;
+  description?: string;
+  council_system_prompt: string;
+  judge_instructions?: string;
+  temperature?: number;
+  target_words?: number;
+  max_tokens?: number;
+  debate?: boolean;
+}
+
+// Modes with their own pipelines rather than a profile
+export const SPECIAL_MODES = ['query', 'image-generation', 'deep-research'];
+
+const DEFAULT_MODE = 'general';
+const COUNCIL_BASE_PROMPT =
+  'You are one of several models in a council answering the same question. Answer clearly and directly.';
+
+const BUILTIN_MODES: ModeProfile[] = [
+  {
+    name: 'general',
+    description: 'Balanced answers for everyday questions',
+    councilSystemPrompt: COUNCIL_BASE_PROMPT,
+    judgeInstructions: null,
+    temperature: 0.7,
+    targetWords: null,
+    maxTokens: null,
+    debate: true,
+    source: 'builtin',
+  },
+  {
+    name: 'comprehensive',
+    description: 'In-depth answers covering edge cases, trade-offs and examples',
+    councilSystemPrompt: `${COUNCIL_BASE_PROMPT} Be thorough: cover edge cases, trade-offs and concrete examples.`,
+    judgeInstructions: 'Keep every relevant detail from the answers; completeness matters more than brevity.',
+    temperature: 0.7,
+    targetWords: null,
+    maxTokens: null,
+    debate: true,
+    source: 'builtin',
+  },
+  {
+    name: 'concise',
+    description: 'Short, direct answers',
+    councilSystemPrompt: `${COUNCIL_BASE_PROMPT} Be brief: lead with the answer and skip preamble.`,
+    judgeInstructions: 'Keep the merged answer short: lead with the answer, no preamble and no repetition.',
+    temperature: 0.5,
+    targetWords: 150,
+    maxTokens: 600,
+    debate: false,
+    source: 'builtin',
+  },
+  {
+    name: 'technical',
+    description: 'Programming and engineering questions, with code examples',
+    councilSystemPrompt: `${COUNCIL_BASE_PROMPT} Provide code examples and explanations when relevant.`,
+    judgeInstructions: 'Keep code examples correct and complete, and prefer working code over prose.',
+    temperature: 0.3,
+    targetWords: null,
+    maxTokens: null,
+    debate: true,
+    source: 'builtin',
+  },
+  {
+    name: 'creative',
+    description: 'Original writing and brainstorming',
+    councilSystemPrompt: `${COUNCIL_BASE_PROMPT} Be original and imaginative.`,
+    judgeInstructions: 'Favor the most original ideas and a vivid voice over the safest common ground.',
+    temperature: 1.0,
+    targetWords: null,
+    maxTokens: null,
+    debate: false,
+    source: 'builtin',
+  },
+];
+
+/**
+ * Mode profiles: the built-in modes plus those of the local modes file, whose
+ * entries override built-ins of the same name.
+ */
+@Injectable()
+export class ModeRegistryService {
+  private readonly logger = new Logger(ModeRegistryService.name);
+  private readonly config: ModesConfig;
+  private readonly modes = new Map<string, ModeProfile>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = this.configService.get('modes');
+    BUILTIN_MODES.forEach((mode) => this.modes.set(mode.name, mode));
+    this.loadModesFile().forEach((mode) => this.modes.set(mode.name, mode));
+    this.logger.log(`Mode profiles: ${Array.from(this.modes.keys()).join(', ')}`);
+  }
+
+  list(): ModeProfile[] {
+    return Array.from(this.modes.values());
+  }
+
+  has(name: string): boolean {
+    return this.modes.has(name);
+  }
+
+  /**
+   * Profile of a text mode; no mode (or 'query') means general. Modes unknown
+   * here (e.g. from an old cassette) also fall back to general.
+   */
+  resolve(name?: string): ModeProfile {
+    const profile = this.modes.get(!name || name === 'query' ? DEFAULT_MODE : name);
+    if (!profile) {
+      this.logger.warn(`Unknown mode ${name}, using ${DEFAULT_MODE}`);
+      return this.modes.get(DEFAULT_MODE);
+    }
+    return profile;
+  }
+
+  private loadModesFile(): ModeProfile[] {
+    const modesPath = path.join(process.cwd(), this.config.file);
+    if (!fs.existsSync(modesPath)) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(modesPath, 'utf-8'));
+      const entries: ModeFileEntry[] = parsed.modes || [];
+      return entries
+        .filter((entry) => {
+          const valid =
+            typeof entry.name === 'string' &&
+            /^[a-z0-9-]+$/.test(entry.name) &&
+            !SPECIAL_MODES.includes(entry.name) &&
+            typeof entry.council_system_prompt === 'string';
+          if (!valid) {
+            this.logger.warn(`Skipping invalid entry ${JSON.stringify(entry.name)} in ${this.config.file}`);
+          }
+          return valid;
+        })
+        .map((entry): ModeProfile => ({
+          name: entry.name,
+          description: entry.description || entry.name,
+          councilSystemPrompt: entry.council_system_prompt,
+          judgeInstructions: entry.judge_instructions || null,
+          temperature: entry.temperature ?? this.modes.get(DEFAULT_MODE).temperature,
+          targetWords: entry.target_words ?? null,
+          maxTokens: entry.max_tokens ?? null,
+          debate: entry.debate !== false,
+          source: 'file',
+        }));
+    } catch (error) {
+      this.logger.error(`Failed to load ${this.config.file}`, error);
+      return [];
+    }
+  }
+}
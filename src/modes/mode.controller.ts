@@ -0,0 +1,13 @@
+import { Controller, Get } from '@nestjs/common';
+import { ModeProfile, ModeRegistryService } from './mode-registry.service';
+
+@Controller('api/v1/modes')
+export class ModeController {
+  constructor(private readonly modeRegistry: ModeRegistryService) {}
+
+  @Get()
+  listModes(): { modes: ModeProfile[]; total: number } {
+    const modes = this.modeRegistry.list();
+    return { modes, total: modes.length };
+  }
+}
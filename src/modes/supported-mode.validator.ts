@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ValidationArguments,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator';
+import { ModeRegistryService, SPECIAL_MODES } from './mode-registry.service';
+
+/**
+ * Checks a mode name against the mode profiles. Pass `['text']` as constraints
+ * to reject the special modes (image generation, deep research).
+ * Needs class-validator's container to be Nest's (see useContainer in main.ts).
+ */
+@ValidatorConstraint({ name: 'supportedMode' })
+@Injectable()
+export class SupportedModeConstraint implements ValidatorConstraintInterface {
+  constructor(private readonly modeRegistry: ModeRegistryService) {}
+
+  validate(value: unknown, args: ValidationArguments): boolean {
+    if (typeof value !== 'string') {
+      return false;
+    }
+    const textOnly = args.constraints?.[0] === 'text';
+    return this.modeRegistry.has(value) || (!textOnly && SPECIAL_MODES.includes(value));
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    const textOnly = args.constraints?.[0] === 'text';
+    const modes = [
+      ...this.modeRegistry.list().map((mode) => mode.name),
+      ...(textOnly ? [] : SPECIAL_MODES),
+    ];
+    return `${args.property} must be one of: ${modes.join(', ')} (see GET /api/v1/modes)`;
+  }
+}
@@ -1,139 +1,213 @@
 import { Injectable, Logger } from '@nestjs/common';
-import axios, { AxiosInstance } from 'axios';
-import * as fs from 'fs';
-import * as path from 'path';
-
-export interface OpenRouterRequest {
-  model: string;
-  messages: Array<{
-    role: 'system' | 'user' | 'assistant';
-    content: string;
-  }>;
+import { ProviderRegistryService, ResolvedModel } from '../providers/provider-registry.service';
+import {
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  ChatMessage,
+  ResponseFormat,
+  ToolCall,
+  ToolDefinition,
+} from '../providers/llm-provider.interface';
+import { PricingService } from '../usage/pricing.service';
+import { CallStage, UsageBreakdown } from '../usage/usage-tracker';
+import { RequestContext } from '../common/context/request-context';
+import { CircuitBreakerService } from '../resilience/circuit-breaker.service';
+import { UpstreamSchedulerService } from '../resilience/upstream-scheduler.service';
+import { getRetryDelayMs } from '../resilience/retry-policy';
+import { CancelledError, EmptyResponseError } from '../providers/provider-errors';
+import { ResponseCacheService } from '../cache/response-cache.service';
+import { sleep } from '../common/utils/sleep';
+
+export interface CallModelOptions {
   temperature?: number;
   max_tokens?: number;
+  onToken?: (delta: string) => void; // When set, the completion is streamed token by token
+  context?: RequestContext; // Usage of the call is recorded against this request
+  stage?: CallStage; // Pipeline stage the call belongs to (default: 'query')
+  round?: number; // Debate round, for 'debate' and 'judge_feedback' calls
+  tools?: ToolDefinition[]; // Tools the model may ask to run (see ToolRunnerService)
+  tool_choice?: 'auto' | 'none';
+  response_format?: ResponseFormat; // Ask for JSON following a schema (see StructuredOutputService)
 }
 
-export interface OpenRouterResponse {
-  id: string;
-  model: string;
-  choices: Array<{
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+export interface CallModelResult {
+  response: string;
+  latency_ms: number; // Time spent on the model call itself, excluding queue_ms
+  queue_ms?: number; // Time spent waiting for an upstream slot (see UpstreamSchedulerService)
+  usage?: UsageBreakdown; // Omitted when the provider reports no token counts
+  toolCalls?: ToolCall[]; // Tools the model asked to run before answering
+  cached?: boolean; // Served from the response cache (nothing was billed)
 }
 
+/**
+ * Entry point for every model call in the pipeline. The actual upstream
+ * (OpenRouter, OpenAI-compatible server, Ollama) is chosen per model id by
+ * ProviderRegistryService.
+ */
 @Injectable()
 export class OpenRouterService {
   private readonly logger = new Logger(OpenRouterService.name);
-  private readonly client: AxiosInstance;
-  private readonly apiKey: string;
 
-  constructor() {
-    this.apiKey = process.env.OPENROUTER_API_KEY;
-    if (!this.apiKey) {
-      throw new Error('OPENROUTER_API_KEY environment variable is required');
+  constructor(
+    private readonly providerRegistry: ProviderRegistryService,
+    private readonly pricingService: PricingService,
+    private readonly circuitBreakerService: CircuitBreakerService,
+    private readonly responseCache: ResponseCacheService,
+    private readonly upstreamScheduler: UpstreamSchedulerService,
+  ) {}
+
+  async callModel(
+    model: string,
+    messages: ChatMessage[],
+    timeoutMs: number,
+    options?: CallModelOptions,
+  ): Promise<CallModelResult> {
+    const startTime = Date.now();
+    const context = options?.context;
+    if (context?.signal?.aborted) {
+      throw new CancelledError();
+    }
+    const request: ChatCompletionRequest = {
+      model,
+      messages,
+      temperature: options?.temperature ?? 0.7,
+      ...(options?.max_tokens && { max_tokens: options.max_tokens }),
+      ...(options?.tools?.length && { tools: options.tools, tool_choice: options.tool_choice || 'auto' }),
+      ...(options?.response_format && { response_format: options.response_format }),
+    };
+    // Replays must be served from the cassette, never from the cache
+    const cacheKey = context?.replay ? null : this.responseCache.buildKey('model', request);
+    const cached = cacheKey
+      ? this.responseCache.get<ChatCompletionResult>('model', cacheKey, context?.cacheMode)
+      : undefined;
+    if (cached) {
+      options?.onToken?.(cached.content);
+      // Recorded like an upstream call so a replay of this request finds it
+      context?.recorder?.record(options.stage || 'query', options.round, model, request, { response: cached }, 0);
+      return { response: cached.content, latency_ms: Date.now() - startTime, cached: true };
     }
 
-    this.client = axios.create({
-      baseURL: 'https://openrouter.ai/api/v1',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://metamerge.app',
-        'X-Title': 'MetaMerge',
-        'Connection': 'keep-alive',
-      },
-      timeout: 30000, // 30s default timeout
-      httpAgent: new (require('http').Agent)({ keepAlive: true, maxSockets: 50 }),
-      httpsAgent: new (require('https').Agent)({ keepAlive: true, maxSockets: 50 }),
+    // Replays are served from the cassette, so they work without the upstream provider
+    const resolved = context?.replay ? null : this.providerRegistry.resolve(model);
+
+    // Empty responses count as failures for the model's circuit breaker
+    const execute = async () => {
+      const completion = context?.replay
+        ? await context.replay.play(model, request, options?.onToken, context.signal)
+        : await this.complete(resolved, request, timeoutMs, options);
+
+      // Tokens are billed even when the content turns out to be empty
+      if (completion.usage && context) {
+        context.usage.record(options.stage || 'query', model, completion.usage, options.round);
+      }
+
+      // A turn that only requests tools legitimately has no content
+      if (!completion.content && !completion.toolCalls?.length) {
+        throw new EmptyResponseError();
+      }
+      return completion;
+    };
+
+    // Replays never reach upstream, so they bypass (and don't skew) the circuit breakers and the
+    // scheduler. An open circuit fails before the call is queued.
+    let queue_ms = 0;
+    const result = await (context?.replay
+      ? execute()
+      : this.circuitBreakerService.execute(model, async () => {
+          const scheduled = await this.upstreamScheduler.schedule(model, context, execute);
+          queue_ms = scheduled.queueMs;
+          return scheduled.result;
+        })
+    ).catch((error) => {
+      if (error instanceof CancelledError && context) {
+        const round = options.round ? ` (round ${options.round})` : '';
+        this.logger.warn(
+          `[${context.requestId}] Cancelled ${options.stage || 'query'} call to ${model}${round} after ${Date.now() - startTime}ms`,
+        );
+      }
+      throw error;
     });
+
+    const latency_ms = Date.now() - startTime - queue_ms;
+    // Tool requests depend on tool output that may change - only final answers are reused
+    if (cacheKey && !result.toolCalls?.length) {
+      this.responseCache.set('model', cacheKey, result, context?.cacheMode);
+    }
+
+    return {
+      response: result.content,
+      latency_ms,
+      ...(queue_ms > 0 && { queue_ms }),
+      ...(result.usage && { usage: this.pricingService.calculate(model, result.usage) }),
+      ...(result.toolCalls && { toolCalls: result.toolCalls }),
+    };
   }
 
-  async callModel(
-    model: string,
-    messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+  /**
+   * Call the upstream provider, recording the exchange when the request has a cassette.
+   */
+  private async complete(
+    resolved: ResolvedModel,
+    request: ChatCompletionRequest,
     timeoutMs: number,
-    options?: { temperature?: number; max_tokens?: number },
-  ): Promise<{ response: string; latency_ms: number }> {
+    options?: CallModelOptions,
+  ): Promise<ChatCompletionResult> {
     const startTime = Date.now();
+    const recorder = options?.context?.recorder;
+    const stage = options?.stage || 'query';
 
     try {
-      const request: OpenRouterRequest = {
-        model,
-        messages,
-        temperature: options?.temperature ?? 0.7,
-        ...(options?.max_tokens && { max_tokens: options.max_tokens }),
-      };
-
-      const axiosResponse = await this.client.post<OpenRouterResponse>(
-        '/chat/completions',
-        request,
+      const completion = await resolved.provider.chatCompletion(
+        { ...request, model: resolved.model },
         {
-          timeout: timeoutMs,
+          timeoutMs,
+          onToken: options?.onToken,
+          signal: options?.context?.signal,
         },
       );
-
-      const latency_ms = Date.now() - startTime;
-
-      const content =
-        axiosResponse.data.choices[0]?.message?.content || '';
-      
-      if (!content) {
-        throw new Error('Empty response from model');
-      }
-
-      return {
-        response: content,
-        latency_ms,
-      };
+      recorder?.record(stage, options?.round, request.model, request, { response: completion }, Date.now() - startTime);
+      return completion;
     } catch (error) {
-      const latency_ms = Date.now() - startTime;
-      
-      if (axios.isAxiosError(error)) {
-        if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
-          throw new Error(`Timeout after ${timeoutMs}ms`);
-        }
-        if (error.response) {
-          throw new Error(
-            `OpenRouter API error: ${error.response.status} - ${JSON.stringify(error.response.data)}`,
-          );
-        }
-        throw new Error(`Network error: ${error.message}`);
-      }
+      recorder?.record(stage, options?.round, request.model, request, { error }, Date.now() - startTime);
       throw error;
     }
   }
 
   async callModelWithRetry(
     model: string,
-    messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+    messages: ChatMessage[],
     timeoutMs: number,
     maxRetries: number = 1,
-    options?: { temperature?: number; max_tokens?: number },
-  ): Promise<{ response: string; latency_ms: number }> {
+    options?: CallModelOptions,
+  ): Promise<CallModelResult> {
     let lastError: Error | null = null;
-
+    // A retry would stream its answer after the failed attempt's partial one - listeners can't tell them apart
+    let streamed = false;
+    const onToken =
+      options?.onToken &&
+      ((delta: string) => {
+        streamed = true;
+        options.onToken(delta);
+      });
+
+    const signal = options?.context?.signal;
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (signal?.aborted) {
+        throw new CancelledError();
+      }
       try {
-        return await this.callModel(model, messages, timeoutMs, options);
+        return await this.callModel(model, messages, timeoutMs, { ...options, onToken });
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
         
-        // Don't retry on timeout or non-transient errors
-        if (lastError.message.includes('timeout') || attempt === maxRetries) {
+        // Retry-After on 429s, jittered backoff on 5xx/network, never on auth or context length
+        const delayMs = getRetryDelayMs(lastError, attempt);
+        if (delayMs === null || attempt === maxRetries || streamed) {
           throw lastError;
         }
 
-        // Wait a bit before retry (exponential backoff)
-        await new Promise((resolve) => setTimeout(resolve, 1000 * (attempt + 1)));
+        this.logger.warn(`Retrying ${model} in ${delayMs}ms after: ${lastError.message}`);
+        await sleep(delayMs, signal);
       }
     }
 
@@ -146,100 +220,19 @@ export class OpenRouterService {
     timeoutMs: number,
   ): Promise<{ imageUrl: string; latency_ms: number }> {
     const startTime = Date.now();
+    const resolved = this.providerRegistry.resolve(model);
 
-    try {
-      // For image generation models, OpenRouter uses the chat completions endpoint
-      // with special handling for image generation models
-      // Models like: stability-ai/stable-diffusion-xl, black-forest-labs/flux, etc.
-      
-      const request = {
-        model,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        // Some image models support additional parameters
-        // n: 1, // Number of images
-        // size: '1024x1024', // Image size (if supported by model)
-      };
-
-      const axiosResponse = await this.client.post(
-        '/chat/completions',
-        request,
-        {
-          timeout: timeoutMs,
-        },
-      );
-
-      const latency_ms = Date.now() - startTime;
-
-      // OpenRouter image generation models return images in different formats
-      // Check the response structure
-      let imageUrl = '';
-
-      const responseData = axiosResponse.data;
-
-      // Try different response formats
-      if (responseData.choices && responseData.choices[0]) {
-        const content = responseData.choices[0].message?.content;
-        
-        // Some models return image URLs in the content
-        if (typeof content === 'string' && (content.startsWith('http') || content.startsWith('data:'))) {
-          imageUrl = content;
-        } else if (content && typeof content === 'object') {
-          // Some models return structured content
-          if (content.url) {
-            imageUrl = content.url;
-          } else if (content.image) {
-            imageUrl = content.image;
-          }
-        }
-      }
-
-      // Check for direct image data in response
-      if (!imageUrl) {
-        if (responseData.data && responseData.data[0]) {
-          const imageData = responseData.data[0];
-          if (imageData.url) {
-            imageUrl = imageData.url;
-          } else if (imageData.b64_json) {
-            imageUrl = `data:image/png;base64,${imageData.b64_json}`;
-          }
-        } else if (responseData.url) {
-          imageUrl = responseData.url;
-        } else if (responseData.image) {
-          imageUrl = responseData.image;
-        }
-      }
-
-      if (!imageUrl) {
-        // Log the response for debugging
-        this.logger.warn(`Unexpected image generation response format: ${JSON.stringify(responseData).substring(0, 200)}`);
-        throw new Error('No image URL or data returned from model. Check if model supports image generation.');
-      }
+    if (!resolved.provider.generateImage) {
+      throw new Error(`${resolved.provider.name} does not support image generation`);
+    }
 
-      return {
-        imageUrl,
-        latency_ms,
-      };
-    } catch (error) {
-      const latency_ms = Date.now() - startTime;
+    const { result: imageUrl, queueMs } = await this.upstreamScheduler.schedule(model, undefined, () =>
+      resolved.provider.generateImage(resolved.model, prompt, timeoutMs),
+    );
 
-      if (axios.isAxiosError(error)) {
-        if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
-          throw new Error(`Timeout after ${timeoutMs}ms`);
-        }
-        if (error.response) {
-          throw new Error(
-            `OpenRouter API error: ${error.response.status} - ${JSON.stringify(error.response.data)}`,
-          );
-        }
-        throw new Error(`Network error: ${error.message}`);
-      }
-      throw error;
-    }
+    return {
+      imageUrl,
+      latency_ms: Date.now() - startTime - queueMs,
+    };
   }
 }
-
@@ -0,0 +1,155 @@
+import { ModelCatalogService } from '../catalog/model-catalog.service';
+import { ConfigService, PromptBudgetConfig } from '../config/config.service';
+import { OpenRouterService } from '../openrouter/openrouter.service';
+import { PromptBudgetService } from './prompt-budget.service';
+import { countTokens } from './tokenizer';
+
+// Overhead the service reserves for message framing
+const OVERHEAD = 256;
+
+describe('PromptBudgetService', () => {
+  let callModel: jest.Mock;
+
+  const createService = (overrides: Partial<PromptBudgetConfig> = {}) => {
+    const config: PromptBudgetConfig = {
+      default_context_window: 2000,
+      context_windows: {},
+      window_usage_ratio: 1,
+      min_section_tokens: 50,
+      summary_model: 'summarizer',
+      summary_timeout_ms: 1000,
+      ...overrides,
+    };
+    const catalog = { getCachedModel: () => undefined };
+    const configService = { get: () => config };
+    return new PromptBudgetService(
+      catalog as unknown as ModelCatalogService,
+      { callModel } as unknown as OpenRouterService,
+      configService as unknown as ConfigService,
+    );
+  };
+
+  const words = (count: number) => Array.from({ length: count }, (_, index) => `word${index % 10}`).join(' ');
+
+  beforeEach(() => {
+    callModel = jest.fn().mockResolvedValue({ response: 'condensed' });
+  });
+
+  it('prefers configured windows over the default', () => {
+    const service = createService({ context_windows: { big: 100000 } });
+
+    expect(service.getContextWindow('big')).toBe(100000);
+    expect(service.getContextWindow('unknown')).toBe(2000);
+    expect(service.getInputBudget('unknown', 500)).toBe(1500);
+  });
+
+  it('keeps every section when the prompt fits', async () => {
+    const service = createService();
+    const fitted = await service.fit(
+      'model',
+      [
+        { key: 'system', text: 'Be helpful.', fixed: true },
+        { key: 'A', text: words(100) },
+        { key: 'B', text: words(200) },
+      ],
+      { reservedOutputTokens: 500 },
+    );
+
+    expect(fitted).toEqual({ system: 'Be helpful.', A: words(100), B: words(200) });
+    expect(callModel).not.toHaveBeenCalled();
+  });
+
+  it('keeps small sections whole and condenses the large ones into what is left', async () => {
+    const service = createService();
+    const small = words(100);
+    const fitted = await service.fit(
+      'model',
+      [
+        { key: 'system', text: 'Be helpful.', fixed: true },
+        { key: 'small', text: small },
+        { key: 'large', text: words(3000) },
+      ],
+      { reservedOutputTokens: 500 },
+    );
+
+    expect(fitted.small).toBe(small);
+    expect(fitted.large).toBe('condensed');
+    expect(callModel).toHaveBeenCalledTimes(1);
+    const available = 2000 - 500 - OVERHEAD - countTokens('Be helpful.') - countTokens(small);
+    expect(callModel.mock.calls[0][3].max_tokens).toBe(available);
+  });
+
+  it('truncates fixed sections that alone overflow the window and leaves no room for the rest', async () => {
+    const service = createService();
+    const fitted = await service.fit(
+      'model',
+      [
+        { key: 'system', text: 'Be helpful.', fixed: true },
+        { key: 'document 1', text: words(5000), fixed: true },
+        { key: 'A', text: words(100) },
+      ],
+      { reservedOutputTokens: 500 },
+    );
+
+    expect(fitted.system).toBe('Be helpful.');
+    const fixedTokens = countTokens(fitted.system) + countTokens(fitted['document 1']);
+    expect(fixedTokens).toBeLessThanOrEqual(2000 - 500 - OVERHEAD + 1); // + the ellipsis
+    expect(fixedTokens).toBeGreaterThan(2000 - 500 - OVERHEAD - 50);
+    expect(fitted.A).toBe('');
+    expect(callModel).not.toHaveBeenCalled();
+  });
+
+  it('never gives flexible sections more than the window has left', async () => {
+    const service = createService({ min_section_tokens: 400 });
+    const fitted = await service.fit(
+      'model',
+      [
+        { key: 'question', text: words(300), fixed: true },
+        { key: 'A', text: words(600) },
+        { key: 'B', text: words(600) },
+      ],
+      { reservedOutputTokens: 500 },
+    );
+
+    const allotted = callModel.mock.calls.map((call) => call[3].max_tokens);
+    const available = 2000 - 500 - OVERHEAD - countTokens(words(300));
+    // Two floors of 400 would not fit
+    expect(available).toBeLessThan(800);
+    expect(allotted).toHaveLength(2);
+    expect(allotted.reduce((sum, tokens) => sum + tokens, 0)).toBeLessThanOrEqual(available);
+    expect(fitted.question).toBe(words(300));
+  });
+
+  it('honours maxSectionTokens', async () => {
+    const service = createService();
+    await service.fit('model', [{ key: 'A', text: words(500) }], { reservedOutputTokens: 0, maxSectionTokens: 100 });
+
+    expect(callModel.mock.calls[0][3].max_tokens).toBe(100);
+  });
+
+  it('truncates when the summary fails', async () => {
+    callModel.mockRejectedValue(new Error('upstream down'));
+    const service = createService();
+
+    const condensed = await service.condense({ key: 'A', text: words(500) }, 100);
+
+    expect(countTokens(condensed)).toBeLessThanOrEqual(101);
+    expect(condensed.endsWith('...')).toBe(true);
+  });
+
+  it('truncates without a summary when the summary model has no room', async () => {
+    const service = createService({ context_windows: { summarizer: 150 } });
+
+    const condensed = await service.condense({ key: 'A', text: words(500) }, 200);
+
+    expect(callModel).not.toHaveBeenCalled();
+    expect(countTokens(condensed)).toBeLessThanOrEqual(201);
+  });
+
+  it('drops a section given no tokens', async () => {
+    const service = createService();
+
+    await expect(service.condense({ key: 'A', text: words(500) }, 0)).resolves.toBe('');
+    expect(callModel).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService, PromptBudgetConfig } from '../config/config.service';
+import { ModelCatalogService } from '../catalog/model-catalog.service';
+import { OpenRouterService } from '../openrouter/openrouter.service';
+import { RequestContext } from '../common/context/request-context';
+import { countTokens, truncateToTokens } from './tokenizer';
+
+// Message framing, separators and instructions around the sections
+const PROMPT_OVERHEAD_TOKENS = 256;
+
+export interface PromptSection {
+  key: string;
+  text: string;
+  fixed?: boolean; // Always sent in full (system prompt, question, instructions)
+}
+
+export interface FitOptions {
+  reservedOutputTokens: number; // Room left in the window for the model's answer
+  maxSectionTokens?: number; // Cap per flexible section, for prompts meant to stay short
+  context?: RequestContext; // Summaries are billed and recorded against this request
+}
+
+/**
+ * Sizes prompts to the receiving model's context window. Fixed sections are kept
+ * as they are; the others (research context, peer answers) share the remaining
+ * tokens, and those that don't fit are summarized rather than cut off.
+ */
+@Injectable()
+export class PromptBudgetService {
+  private readonly logger = new Logger(PromptBudgetService.name);
+  private readonly config: PromptBudgetConfig;
+
+  constructor(
+    private readonly modelCatalogService: ModelCatalogService,
+    private readonly openRouterService: OpenRouterService,
+    private readonly configService: ConfigService,
+  ) {
+    this.config = this.configService.get('prompt_budget');
+  }
+
+  /**
+   * Context window of a model: config override, then the catalog, then the default.
+   */
+  getContextWindow(model: string): number {
+    return (
+      this.config.context_windows[model] ??
+      this.modelCatalogService.getCachedModel(model)?.contextLength ??
+      this.config.default_context_window
+    );
+  }
+
+  /**
+   * Input tokens a prompt to the model may use, leaving room for its answer.
+   */
+  getInputBudget(model: string, reservedOutputTokens: number): number {
+    return Math.floor(this.getContextWindow(model) * this.config.window_usage_ratio) - reservedOutputTokens;
+  }
+
+  /**
+   * Fit the sections of one prompt to the model. Returns each section's text by key.
+   */
+  async fit(model: string, sections: PromptSection[], options: FitOptions): Promise<Record<string, string>> {
+    const available = this.getInputBudget(model, options.reservedOutputTokens) - PROMPT_OVERHEAD_TOKENS;
+    const measured = sections.map((section) => ({ section, tokens: countTokens(section.text) }));
+    const fixed = measured.filter(({ section }) => section.fixed);
+    const flexible = measured.filter(({ section }) => !section.fixed);
+    const fixedTokens = fixed.reduce((sum, { tokens }) => sum + tokens, 0);
+
+    // Fixed sections alone overflowing the window (large documents) are cut, the largest first
+    const fixedAllotted = fixedTokens > available ? this.allot(fixed, available, 0) : null;
+    if (fixedAllotted) {
+      const logPrefix = options.context ? `[${options.context.requestId}] ` : '';
+      this.logger.warn(`${logPrefix}Fixed sections need ${fixedTokens} tokens, ${model} takes ${available} - truncating`);
+    }
+    const allotted = this.allot(
+      flexible,
+      available - fixedTokens,
+      this.config.min_section_tokens,
+      options.maxSectionTokens,
+    );
+
+    const fitted: Record<string, string> = {};
+    await Promise.all(
+      measured.map(async ({ section, tokens }) => {
+        if (section.fixed) {
+          const maxTokens = fixedAllotted?.get(section.key) ?? tokens;
+          fitted[section.key] = tokens <= maxTokens ? section.text : truncateToTokens(section.text, maxTokens);
+          return;
+        }
+        const maxTokens = allotted.get(section.key);
+        fitted[section.key] =
+          tokens <= maxTokens ? section.text : await this.condense(section, maxTokens, options.context);
+      }),
+    );
+    return fitted;
+  }
+
+  /**
+   * Summarize a section down to maxTokens; falls back to truncation when the
+   * summary can't be had (summary model failing, budget spent).
+   */
+  async condense(section: PromptSection, maxTokens: number, context?: RequestContext): Promise<string> {
+    const logPrefix = context ? `[${context.requestId}] ` : '';
+    if (maxTokens <= 0) {
+      return '';
+    }
+    const summaryModel = this.config.summary_model;
+    // A summary model whose window can't hold the summary leaves nothing to summarize with
+    const summaryInputBudget = this.getInputBudget(summaryModel, maxTokens);
+    if (context?.budget?.isExceeded() || summaryInputBudget <= 0) {
+      return truncateToTokens(section.text, maxTokens);
+    }
+
+    this.logger.log(`${logPrefix}Summarizing ${section.key}: ${countTokens(section.text)} tokens, ${maxTokens} available`);
+    try {
+      const result = await this.openRouterService.callModel(
+        summaryModel,
+        [
+          {
+            role: 'system',
+            content:
+              `Condense the text you are given to at most ${Math.floor(maxTokens * 0.7)} words. ` +
+              'Keep every fact, number, name, code snippet and citation marker (e.g. [Source 1]) that matters; ' +
+              'drop repetition and filler. Reply with the condensed text only.',
+          },
+          // Text beyond the summary model's own window is cut before summarizing
+          { role: 'user', content: truncateToTokens(section.text, summaryInputBudget) },
+        ],
+        this.config.summary_timeout_ms,
+        { temperature: 0, max_tokens: maxTokens, context, stage: 'summarize' },
+      );
+      // Summaries may still overshoot the requested length
+      return truncateToTokens(result.response, maxTokens);
+    } catch (error) {
+      this.logger.warn(`${logPrefix}Summary of ${section.key} failed, truncating instead: ${error.message}`);
+      return truncateToTokens(section.text, maxTokens);
+    }
+  }
+
+  /**
+   * Share `available` tokens among the sections, smallest first: sections under their
+   * fair share keep their full size, and what they leave over goes to the larger ones.
+   * No section gets less than `floor` while tokens remain, and none more than what remains.
+   */
+  private allot(
+    items: Array<{ section: PromptSection; tokens: number }>,
+    available: number,
+    floor: number,
+    cap: number = Infinity,
+  ): Map<string, number> {
+    const allotted = new Map<string, number>();
+    let remaining = Math.max(0, available);
+    [...items]
+      .sort((a, b) => a.tokens - b.tokens)
+      .forEach(({ section, tokens }, index, sorted) => {
+        const share = Math.floor(remaining / (sorted.length - index));
+        const tokensAllotted = Math.min(tokens, Math.max(share, floor), remaining, cap);
+        allotted.set(section.key, tokensAllotted);
+        remaining -= tokensAllotted;
+      });
+    return allotted;
+  }
+}
@@ -0,0 +1,29 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+
+// o200k_base is the encoding of current OpenAI models. Other vendors' tokenizers
+// differ by a few percent, which the budget's safety margin absorbs.
+let encoding: Tiktoken | null = null;
+
+function getTokenizer(): Tiktoken {
+  // Loading the ranks takes a moment - only done on first use
+  encoding = encoding || getEncoding('o200k_base');
+  return encoding;
+}
+
+export function countTokens(text: string): number {
+  return text ? getTokenizer().encode(text).length : 0;
+}
+
+/**
+ * Cut text to at most maxTokens, at a word boundary where possible.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const tokens = getTokenizer().encode(text);
+  if (tokens.length <= maxTokens) {
+    return text;
+  }
+
+  const truncated = getTokenizer().decode(tokens.slice(0, Math.max(0, maxTokens)));
+  const lastSpace = truncated.lastIndexOf(' ');
+  return `${lastSpace > truncated.length / 2 ? truncated.substring(0, lastSpace) : truncated}...`;
+}
@@ -0,0 +1,109 @@
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+// OpenAI-style content parts, for messages carrying images
+export interface TextContentPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImageContentPart {
+  type: 'image_url';
+  image_url: { url: string }; // https URL or data URL
+}
+
+export type ContentPart = TextContentPart | ImageContentPart;
+
+// OpenAI-style function tool offered to the model
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>; // JSON Schema of the arguments object
+  };
+}
+
+// A tool invocation requested by the model
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string; // JSON-encoded arguments, as produced by the model
+  };
+}
+
+// OpenAI-style structured output request
+export interface ResponseFormat {
+  type: 'json_schema';
+  json_schema: {
+    name: string;
+    schema: Record<string, unknown>;
+    strict?: boolean;
+  };
+}
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string | ContentPart[];
+  tool_calls?: ToolCall[]; // Assistant turns that requested tools
+  tool_call_id?: string; // Tool turns: the call this message answers
+}
+
+export interface ChatCompletionRequest {
+  model: string; // Provider-native model id (routing prefix already stripped)
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  tools?: ToolDefinition[];
+  tool_choice?: 'auto' | 'none'; // 'none' forces a plain answer while tools stay declared
+  response_format?: ResponseFormat;
+}
+
+export interface ChatCompletionOptions {
+  timeoutMs: number;
+  onToken?: (delta: string) => void; // When set, the completion is streamed token by token
+  signal?: AbortSignal; // Aborts the upstream call when the request is cancelled
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+// Metadata of a model as listed by its provider
+export interface ProviderModelInfo {
+  id: string; // Provider-native model id
+  name?: string;
+  contextLength?: number;
+  inputModalities: string[]; // e.g. ['text', 'image']
+  outputModalities: string[];
+  pricing?: { prompt: number; completion: number }; // USD per one million tokens
+  supportedParameters: string[]; // e.g. ['tools', 'response_format']
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  usage?: TokenUsage; // Omitted when the upstream does not report token counts
+  toolCalls?: ToolCall[]; // Present when the model asked to run tools
+}
+
+/**
+ * A backend capable of serving chat completions (OpenRouter, an OpenAI-compatible
+ * server, Ollama, ...). Providers are selected per call by ProviderRegistryService.
+ */
+export interface LlmProvider {
+  readonly name: string;
+
+  chatCompletion(
+    request: ChatCompletionRequest,
+    options: ChatCompletionOptions,
+  ): Promise<ChatCompletionResult>;
+
+  // Optional - only providers that can produce images implement it
+  generateImage?(model: string, prompt: string, timeoutMs: number): Promise<string>;
+
+  // Optional - only providers with a model listing endpoint implement it
+  listModels?(timeoutMs: number): Promise<ProviderModelInfo[]>;
+}
@@ -0,0 +1,26 @@
+import { ChatMessage } from './llm-provider.interface';
+
+/**
+ * Text of a message, ignoring any image parts.
+ */
+export function getMessageText(content: ChatMessage['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .filter((part) => part.type === 'text')
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .join('\n');
+}
+
+/**
+ * Image URLs (https or data URLs) of a message.
+ */
+export function getMessageImages(content: ChatMessage['content']): string[] {
+  if (typeof content === 'string') {
+    return [];
+  }
+  return content
+    .map((part) => (part.type === 'image_url' ? part.image_url.url : null))
+    .filter((url): url is string => url !== null);
+}
@@ -0,0 +1,245 @@
+import axios, { AxiosInstance } from 'axios';
+import * as crypto from 'crypto';
+import {
+  LlmProvider,
+  ChatCompletionRequest,
+  ChatCompletionOptions,
+  ChatCompletionResult,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition,
+} from './llm-provider.interface';
+import {
+  CancelledError,
+  classifyProviderError,
+  normalizeProviderError,
+  ProviderTimeoutError,
+  readStreamBody,
+} from './provider-errors';
+import { getMessageImages, getMessageText } from './message-content';
+
+// Ollama passes tool arguments as objects and does not assign call ids
+export interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+// Ollama takes images as raw base64 next to the text instead of content parts
+export interface OllamaChatMessage {
+  role: string;
+  content: string;
+  images?: string[];
+  tool_calls?: OllamaToolCall[];
+}
+
+export interface OllamaChatRequest {
+  model: string;
+  messages: OllamaChatMessage[];
+  stream: boolean;
+  tools?: ToolDefinition[];
+  format?: Record<string, unknown>; // JSON Schema the output must follow
+  options?: {
+    temperature?: number;
+    num_predict?: number; // Ollama's name for max_tokens
+  };
+}
+
+// Non-streamed responses and every NDJSON line of a streamed response share this shape
+export interface OllamaChatResponse {
+  model: string;
+  message?: {
+    role: string;
+    content: string;
+    tool_calls?: OllamaToolCall[];
+  };
+  done: boolean;
+  error?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * Provider for a local Ollama instance using its native `/api/chat` endpoint.
+ */
+export class OllamaProvider implements LlmProvider {
+  readonly name = 'Ollama';
+  private readonly client: AxiosInstance;
+
+  constructor(baseUrl: string) {
+    this.client = axios.create({
+      baseURL: baseUrl,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      timeout: 30000, // 30s default timeout
+      httpAgent: new (require('http').Agent)({ keepAlive: true, maxSockets: 50 }),
+    });
+  }
+
+  async chatCompletion(
+    request: ChatCompletionRequest,
+    options: ChatCompletionOptions,
+  ): Promise<ChatCompletionResult> {
+    const ollamaRequest: OllamaChatRequest = {
+      model: request.model,
+      messages: request.messages.map((message) => this.toOllamaMessage(message)),
+      stream: !!options.onToken,
+      // No tool_choice in Ollama - 'none' is expressed by not offering the tools
+      ...(request.tools?.length && request.tool_choice !== 'none' && { tools: request.tools }),
+      ...(request.response_format && { format: request.response_format.json_schema.schema }),
+      options: {
+        temperature: request.temperature,
+        ...(request.max_tokens && { num_predict: request.max_tokens }),
+      },
+    };
+
+    try {
+      if (options.onToken) {
+        return await this.streamChat(ollamaRequest, options.timeoutMs, options.onToken, options.signal);
+      }
+
+      const axiosResponse = await this.client.post<OllamaChatResponse>(
+        '/api/chat',
+        ollamaRequest,
+        {
+          timeout: options.timeoutMs,
+          signal: options.signal,
+        },
+      );
+
+      const toolCalls = this.toToolCalls(axiosResponse.data.message?.tool_calls);
+      return {
+        content: axiosResponse.data.message?.content || '',
+        usage: this.toTokenUsage(axiosResponse.data),
+        ...(toolCalls.length > 0 && { toolCalls }),
+      };
+    } catch (error) {
+      throw normalizeProviderError(error, this.name, options.timeoutMs);
+    }
+  }
+
+  private toOllamaMessage(message: ChatCompletionRequest['messages'][number]): OllamaChatMessage {
+    // Only inline (data URL) images can be forwarded - Ollama does not fetch remote URLs
+    const images = getMessageImages(message.content)
+      .filter((url) => url.startsWith('data:'))
+      .map((url) => url.substring(url.indexOf(',') + 1));
+    return {
+      role: message.role,
+      content: getMessageText(message.content),
+      ...(images.length > 0 && { images }),
+      ...(message.tool_calls && {
+        tool_calls: message.tool_calls.map((toolCall) => ({
+          function: { name: toolCall.function.name, arguments: this.parseArguments(toolCall.function.arguments) },
+        })),
+      }),
+    };
+  }
+
+  private toToolCalls(ollamaToolCalls: OllamaToolCall[] | undefined): ToolCall[] {
+    return (ollamaToolCalls || []).map((toolCall) => ({
+      id: `call_${crypto.randomUUID()}`,
+      type: 'function',
+      function: { name: toolCall.function.name, arguments: JSON.stringify(toolCall.function.arguments || {}) },
+    }));
+  }
+
+  private parseArguments(encoded: string): Record<string, unknown> {
+    try {
+      return JSON.parse(encoded);
+    } catch {
+      return {};
+    }
+  }
+
+  private toTokenUsage(response: OllamaChatResponse): TokenUsage | undefined {
+    if (response.prompt_eval_count === undefined && response.eval_count === undefined) {
+      return undefined;
+    }
+    const promptTokens = response.prompt_eval_count || 0;
+    const completionTokens = response.eval_count || 0;
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+  }
+
+  /**
+   * Ollama streams newline-delimited JSON objects rather than SSE.
+   */
+  private async streamChat(
+    request: OllamaChatRequest,
+    timeoutMs: number,
+    onToken: (delta: string) => void,
+    signal?: AbortSignal,
+  ): Promise<ChatCompletionResult> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onCancel = () => controller.abort();
+    signal?.addEventListener('abort', onCancel);
+
+    try {
+      const axiosResponse = await this.client.post('/api/chat', request, {
+        timeout: timeoutMs,
+        responseType: 'stream',
+        signal: controller.signal,
+      });
+
+      let buffer = '';
+      let content = '';
+      const toolCalls: ToolCall[] = [];
+
+      for await (const chunk of axiosResponse.data) {
+        buffer += chunk.toString('utf8');
+
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
+          const line = buffer.substring(0, newlineIndex).trim();
+          buffer = buffer.substring(newlineIndex + 1);
+          if (!line) {
+            continue;
+          }
+
+          const parsed = JSON.parse(line) as OllamaChatResponse;
+          if (parsed.error) {
+            throw classifyProviderError(this.name, undefined, parsed.error);
+          }
+
+          const delta = parsed.message?.content;
+          if (delta) {
+            content += delta;
+            onToken(delta);
+          }
+          // Tool calls come whole in a single line rather than as fragments
+          toolCalls.push(...this.toToolCalls(parsed.message?.tool_calls));
+          if (parsed.done) {
+            // The final line carries the token counts
+            return {
+              content,
+              usage: this.toTokenUsage(parsed),
+              ...(toolCalls.length > 0 && { toolCalls }),
+            };
+          }
+        }
+      }
+
+      return { content, ...(toolCalls.length > 0 && { toolCalls }) };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new CancelledError();
+      }
+      if (controller.signal.aborted) {
+        throw new ProviderTimeoutError(timeoutMs);
+      }
+      if (axios.isAxiosError(error) && error.response?.data?.on) {
+        error.response.data = await readStreamBody(error.response.data);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onCancel);
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  LlmProvider,
+  ChatCompletionRequest,
+  ChatCompletionOptions,
+  ChatCompletionResult,
+  TokenUsage,
+  ToolCall,
+} from './llm-provider.interface';
+import {
+  CancelledError,
+  classifyProviderError,
+  ContentFilteredError,
+  normalizeProviderError,
+  ProviderTimeoutError,
+  readStreamBody,
+} from './provider-errors';
+
+export interface OpenAiChatRequest extends ChatCompletionRequest {
+  stream?: boolean;
+  stream_options?: {
+    include_usage: boolean; // Ask for a final chunk carrying token usage
+  };
+}
+
+export interface OpenAiChatResponse {
+  id: string;
+  model: string;
+  choices: Array<{
+    message: {
+      role: string;
+      content: string | null;
+      tool_calls?: ToolCall[];
+    };
+    finish_reason: string;
+  }>;
+  usage?: TokenUsage;
+}
+
+// A single `data:` payload of a streamed (SSE) chat completion
+export interface OpenAiStreamChunk {
+  id: string;
+  model: string;
+  choices: Array<{
+    delta: {
+      role?: string;
+      content?: string | null;
+      // Tool calls arrive in fragments keyed by index; only the first carries id and name
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: TokenUsage; // Only present on the final chunk when include_usage is requested
+  error?: {
+    code: number | string;
+    message: string;
+  };
+}
+
+export interface OpenAiCompatibleProviderConfig {
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Provider for any server speaking the OpenAI `/chat/completions` protocol
+ * (vLLM, llama.cpp server, LM Studio, ...). OpenRouter builds on top of it.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  protected readonly client: AxiosInstance;
+
+  constructor(
+    readonly name: string,
+    config: OpenAiCompatibleProviderConfig,
+  ) {
+    this.client = axios.create({
+      baseURL: config.baseUrl,
+      headers: {
+        ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` }),
+        'Content-Type': 'application/json',
+        'Connection': 'keep-alive',
+        ...config.headers,
+      },
+      timeout: 30000, // 30s default timeout
+      httpAgent: new (require('http').Agent)({ keepAlive: true, maxSockets: 50 }),
+      httpsAgent: new (require('https').Agent)({ keepAlive: true, maxSockets: 50 }),
+    });
+  }
+
+  async chatCompletion(
+    request: ChatCompletionRequest,
+    options: ChatCompletionOptions,
+  ): Promise<ChatCompletionResult> {
+    try {
+      if (options.onToken) {
+        return await this.streamCompletion(request, options.timeoutMs, options.onToken, options.signal);
+      }
+
+      const axiosResponse = await this.client.post<OpenAiChatResponse>(
+        '/chat/completions',
+        request,
+        {
+          timeout: options.timeoutMs,
+          signal: options.signal,
+        },
+      );
+
+      const choice = axiosResponse.data.choices[0];
+      if (!choice?.message?.content && choice?.finish_reason === 'content_filter') {
+        throw new ContentFilteredError(`${this.name} API error: response blocked by content filter`);
+      }
+
+      return {
+        content: choice?.message?.content || '',
+        usage: axiosResponse.data.usage,
+        ...(choice?.message?.tool_calls?.length && { toolCalls: choice.message.tool_calls }),
+      };
+    } catch (error) {
+      throw normalizeProviderError(error, this.name, options.timeoutMs);
+    }
+  }
+
+  /**
+   * Stream a chat completion over SSE, forwarding each content delta to onToken.
+   * Resolves with the full concatenated content once the stream ends.
+   */
+  private async streamCompletion(
+    request: ChatCompletionRequest,
+    timeoutMs: number,
+    onToken: (delta: string) => void,
+    signal?: AbortSignal,
+  ): Promise<ChatCompletionResult> {
+    // axios' timeout only covers the wait for response headers, so the total
+    // stream duration is bounded with an abort signal instead
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onCancel = () => controller.abort();
+    signal?.addEventListener('abort', onCancel);
+
+    try {
+      const streamRequest: OpenAiChatRequest = {
+        ...request,
+        stream: true,
+        stream_options: { include_usage: true },
+      };
+      const axiosResponse = await this.client.post('/chat/completions', streamRequest, {
+        timeout: timeoutMs,
+        responseType: 'stream',
+        signal: controller.signal,
+      });
+
+      let buffer = '';
+      let content = '';
+      let usage: TokenUsage | undefined;
+      const toolCalls: ToolCall[] = [];
+      const result = (): ChatCompletionResult => ({
+        content,
+        usage,
+        ...(toolCalls.length > 0 && { toolCalls: toolCalls.filter(Boolean) }),
+      });
+
+      for await (const chunk of axiosResponse.data) {
+        buffer += chunk.toString('utf8');
+
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
+          const line = buffer.substring(0, newlineIndex).trim();
+          buffer = buffer.substring(newlineIndex + 1);
+
+          // Skip blank separators and SSE comments (OpenRouter sends ": OPENROUTER PROCESSING")
+          if (!line.startsWith('data:')) {
+            continue;
+          }
+
+          const data = line.substring(5).trim();
+          if (data === '[DONE]') {
+            return result();
+          }
+
+          const parsed = JSON.parse(data) as OpenAiStreamChunk;
+          if (parsed.error) {
+            // Errors after the 200 header arrive in-band (e.g. a rate limit mid-stream)
+            throw classifyProviderError(
+              this.name,
+              typeof parsed.error.code === 'number' ? parsed.error.code : undefined,
+              JSON.stringify(parsed.error),
+            );
+          }
+
+          if (parsed.usage) {
+            usage = parsed.usage;
+          }
+
+          const delta = parsed.choices[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            onToken(delta);
+          }
+          parsed.choices[0]?.delta?.tool_calls?.forEach((fragment) => {
+            const toolCall = (toolCalls[fragment.index] = toolCalls[fragment.index] || {
+              id: fragment.id,
+              type: 'function',
+              function: { name: '', arguments: '' },
+            });
+            toolCall.function.name += fragment.function?.name || '';
+            toolCall.function.arguments += fragment.function?.arguments || '';
+          });
+          if (!content && parsed.choices[0]?.finish_reason === 'content_filter') {
+            throw new ContentFilteredError(`${this.name} API error: response blocked by content filter`);
+          }
+        }
+      }
+
+      return result();
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new CancelledError();
+      }
+      if (controller.signal.aborted) {
+        throw new ProviderTimeoutError(timeoutMs);
+      }
+      // Error bodies arrive as a stream too - read them so callers can report the payload
+      if (axios.isAxiosError(error) && error.response?.data?.on) {
+        error.response.data = await readStreamBody(error.response.data);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onCancel);
+    }
+  }
+}
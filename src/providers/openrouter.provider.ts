@@ -0,0 +1,143 @@
+import { Logger } from '@nestjs/common';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider';
+import { normalizeProviderError } from './provider-errors';
+import { ProviderModelInfo } from './llm-provider.interface';
+
+export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+// Entry of OpenRouter's GET /models listing (prices are USD per token, as strings)
+interface OpenRouterModel {
+  id: string;
+  name: string;
+  context_length?: number;
+  architecture?: {
+    input_modalities?: string[];
+    output_modalities?: string[];
+  };
+  pricing?: {
+    prompt?: string;
+    completion?: string;
+  };
+  supported_parameters?: string[];
+}
+
+export class OpenRouterProvider extends OpenAiCompatibleProvider {
+  private readonly logger = new Logger(OpenRouterProvider.name);
+
+  constructor(apiKey: string, baseUrl: string = OPENROUTER_BASE_URL) {
+    super('OpenRouter', {
+      baseUrl,
+      apiKey,
+      headers: {
+        'HTTP-Referer': 'https://metamerge.app',
+        'X-Title': 'MetaMerge',
+      },
+    });
+  }
+
+  async listModels(timeoutMs: number): Promise<ProviderModelInfo[]> {
+    try {
+      const axiosResponse = await this.client.get<{ data: OpenRouterModel[] }>('/models', {
+        timeout: timeoutMs,
+      });
+
+      return axiosResponse.data.data.map((model) => {
+        const promptPrice = Number(model.pricing?.prompt);
+        const completionPrice = Number(model.pricing?.completion);
+        return {
+          id: model.id,
+          name: model.name,
+          contextLength: model.context_length,
+          inputModalities: model.architecture?.input_modalities || ['text'],
+          outputModalities: model.architecture?.output_modalities || ['text'],
+          // Negative prices mark variable-priced routers (e.g. openrouter/auto)
+          ...(promptPrice >= 0 &&
+            completionPrice >= 0 && {
+              pricing: { prompt: promptPrice * 1_000_000, completion: completionPrice * 1_000_000 },
+            }),
+          supportedParameters: model.supported_parameters || [],
+        };
+      });
+    } catch (error) {
+      throw normalizeProviderError(error, this.name, timeoutMs);
+    }
+  }
+
+  async generateImage(model: string, prompt: string, timeoutMs: number): Promise<string> {
+    try {
+      // For image generation models, OpenRouter uses the chat completions endpoint
+      // with special handling for image generation models
+      // Models like: stability-ai/stable-diffusion-xl, black-forest-labs/flux, etc.
+
+      const request = {
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        // Some image models support additional parameters
+        // n: 1, // Number of images
+        // size: '1024x1024', // Image size (if supported by model)
+      };
+
+      const axiosResponse = await this.client.post(
+        '/chat/completions',
+        request,
+        {
+          timeout: timeoutMs,
+        },
+      );
+
+      // OpenRouter image generation models return images in different formats
+      // Check the response structure
+      let imageUrl = '';
+
+      const responseData = axiosResponse.data;
+
+      // Try different response formats
+      if (responseData.choices && responseData.choices[0]) {
+        const content = responseData.choices[0].message?.content;
+
+        // Some models return image URLs in the content
+        if (typeof content === 'string' && (content.startsWith('http') || content.startsWith('data:'))) {
+          imageUrl = content;
+        } else if (content && typeof content === 'object') {
+          // Some models return structured content
+          if (content.url) {
+            imageUrl = content.url;
+          } else if (content.image) {
+            imageUrl = content.image;
+          }
+        }
+      }
+
+      // Check for direct image data in response
+      if (!imageUrl) {
+        if (responseData.data && responseData.data[0]) {
+          const imageData = responseData.data[0];
+          if (imageData.url) {
+            imageUrl = imageData.url;
+          } else if (imageData.b64_json) {
+            imageUrl = `data:image/png;base64,${imageData.b64_json}`;
+          }
+        } else if (responseData.url) {
+          imageUrl = responseData.url;
+        } else if (responseData.image) {
+          imageUrl = responseData.image;
+        }
+      }
+
+      if (!imageUrl) {
+        // Log the response for debugging
+        this.logger.warn(`Unexpected image generation response format: ${JSON.stringify(responseData).substring(0, 200)}`);
+        throw new Error('No image URL or data returned from model. Check if model supports image generation.');
+      }
+
+      return imageUrl;
+    } catch (error) {
+      throw normalizeProviderError(error, this.name, timeoutMs);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { AxiosError, AxiosHeaders, CanceledError } from 'axios';
+import {
+  CancelledError,
+  ContextLengthExceededError,
+  NetworkError,
+  ProviderTimeoutError,
+  RateLimitedError,
+  UpstreamServerError,
+  classifyProviderError,
+  normalizeProviderError,
+} from './provider-errors';
+
+describe('normalizeProviderError', () => {
+  it('classifies axios timeouts by error code', () => {
+    const timer = new AxiosError('timeout of 10ms exceeded', 'ECONNABORTED');
+    const connect = new AxiosError('connect ETIMEDOUT', 'ETIMEDOUT');
+
+    expect(normalizeProviderError(timer, 'OpenRouter', 10)).toEqual(new ProviderTimeoutError(10));
+    expect(normalizeProviderError(connect, 'OpenRouter', 10)).toBeInstanceOf(ProviderTimeoutError);
+  });
+
+  it('does not take a message mentioning a timeout for one', () => {
+    const reset = new AxiosError('socket hang up (keepalive timeout)', 'ECONNRESET');
+
+    expect(normalizeProviderError(reset, 'OpenRouter', 10)).toBeInstanceOf(NetworkError);
+  });
+
+  it('keeps the provider timer error and treats an aborted signal as cancellation', () => {
+    const timeout = new ProviderTimeoutError(5);
+
+    expect(normalizeProviderError(timeout, 'OpenRouter', 10)).toBe(timeout);
+    expect(normalizeProviderError(new CanceledError(), 'OpenRouter', 10)).toBeInstanceOf(CancelledError);
+  });
+
+  it('classifies HTTP responses with their Retry-After', () => {
+    const headers = new AxiosHeaders({ 'retry-after': '2' });
+    const error = new AxiosError('Request failed', 'ERR_BAD_REQUEST', undefined, undefined, {
+      status: 429,
+      statusText: 'Too Many Requests',
+      data: { error: 'slow down' },
+      headers,
+      config: { headers },
+    });
+
+    const normalized = normalizeProviderError(error, 'OpenRouter', 10);
+
+    expect(normalized).toBeInstanceOf(RateLimitedError);
+    expect((normalized as RateLimitedError).retryAfterMs).toBe(2000);
+  });
+});
+
+describe('classifyProviderError', () => {
+  it('reads context length errors from the body whatever the status', () => {
+    expect(classifyProviderError('OpenRouter', 400, 'maximum context length is 8192 tokens')).toBeInstanceOf(
+      ContextLengthExceededError,
+    );
+  });
+
+  it('treats 408 and 5xx as upstream errors', () => {
+    expect(classifyProviderError('OpenRouter', 408, '')).toBeInstanceOf(UpstreamServerError);
+    expect(classifyProviderError('OpenRouter', 503, '')).toBeInstanceOf(UpstreamServerError);
+  });
+});
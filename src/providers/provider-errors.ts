@@ -0,0 +1,206 @@
+import axios from 'axios';
+
+/**
+ * Stable failure codes surfaced to clients (`ModelResult.errorCode`).
+ */
+export type ProviderErrorCode =
+  | 'rate_limited'
+  | 'timeout'
+  | 'auth'
+  | 'context_length_exceeded'
+  | 'content_filtered'
+  | 'upstream_error'
+  | 'network'
+  | 'bad_request'
+  | 'empty_response'
+  | 'circuit_open'
+  | 'queue_timeout'
+  | 'cancelled';
+
+/**
+ * Base class for failures of an upstream model call. Messages keep the formats
+ * used across the pipeline (`Timeout after Nms`, `<Provider> API error: <status> - <body>`).
+ */
+export class ProviderError extends Error {
+  constructor(
+    readonly code: ProviderErrorCode,
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export class RateLimitedError extends ProviderError {
+  constructor(
+    message: string,
+    readonly retryAfterMs?: number, // Parsed from the Retry-After header, when sent
+  ) {
+    super('rate_limited', message, 429);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class ProviderTimeoutError extends ProviderError {
+  constructor(readonly timeoutMs: number) {
+    super('timeout', `Timeout after ${timeoutMs}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+export class AuthError extends ProviderError {
+  constructor(message: string, status?: number) {
+    super('auth', message, status);
+    this.name = 'AuthError';
+  }
+}
+
+export class ContextLengthExceededError extends ProviderError {
+  constructor(message: string, status?: number) {
+    super('context_length_exceeded', message, status);
+    this.name = 'ContextLengthExceededError';
+  }
+}
+
+export class ContentFilteredError extends ProviderError {
+  constructor(message: string, status?: number) {
+    super('content_filtered', message, status);
+    this.name = 'ContentFilteredError';
+  }
+}
+
+export class UpstreamServerError extends ProviderError {
+  constructor(message: string, status?: number) {
+    super('upstream_error', message, status);
+    this.name = 'UpstreamServerError';
+  }
+}
+
+export class NetworkError extends ProviderError {
+  constructor(message: string) {
+    super('network', message);
+    this.name = 'NetworkError';
+  }
+}
+
+export class BadRequestError extends ProviderError {
+  constructor(message: string, status?: number) {
+    super('bad_request', message, status);
+    this.name = 'BadRequestError';
+  }
+}
+
+export class EmptyResponseError extends ProviderError {
+  constructor() {
+    super('empty_response', 'Empty response from model');
+    this.name = 'EmptyResponseError';
+  }
+}
+
+export class CancelledError extends ProviderError {
+  constructor() {
+    super('cancelled', 'Cancelled: the client disconnected or cancelled the request');
+    this.name = 'CancelledError';
+  }
+}
+
+const CONTEXT_LENGTH_PATTERN = /context[_ ]length|maximum context|too many tokens|prompt is too long/i;
+const CONTENT_FILTER_PATTERN = /content[_ ]filter|moderation|flagged/i;
+
+/**
+ * Map an upstream HTTP status (or in-band error code) and body to a typed error.
+ */
+export function classifyProviderError(
+  providerName: string,
+  status: number | undefined,
+  body: string,
+  retryAfterHeader?: string,
+): ProviderError {
+  const message = `${providerName} API error: ${status ?? 'unknown'} - ${body}`;
+
+  // Body checks come first - providers report these with varying 400/403/413 statuses
+  if (CONTEXT_LENGTH_PATTERN.test(body)) {
+    return new ContextLengthExceededError(message, status);
+  }
+  if (CONTENT_FILTER_PATTERN.test(body)) {
+    return new ContentFilteredError(message, status);
+  }
+  if (status === 429) {
+    return new RateLimitedError(message, parseRetryAfter(retryAfterHeader));
+  }
+  if (status === 401 || status === 402 || status === 403) {
+    return new AuthError(message, status);
+  }
+  if (status === 408) {
+    return new UpstreamServerError(message, status);
+  }
+  if (status !== undefined && status >= 500) {
+    return new UpstreamServerError(message, status);
+  }
+  return new BadRequestError(message, status);
+}
+
+/**
+ * Convert a failed upstream call into a typed ProviderError.
+ */
+export function normalizeProviderError(
+  error: unknown,
+  providerName: string,
+  timeoutMs: number,
+): Error {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+  // Timeouts use axios' own timer, so an aborted signal always means a cancelled request
+  if (axios.isCancel(error)) {
+    return new CancelledError();
+  }
+  if (axios.isAxiosError(error)) {
+    // ECONNABORTED is axios' timer, ETIMEDOUT a socket that never connected
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new ProviderTimeoutError(timeoutMs);
+    }
+    if (error.response) {
+      const body =
+        typeof error.response.data === 'string'
+          ? error.response.data
+          : JSON.stringify(error.response.data);
+      const retryAfter = error.response.headers?.['retry-after'];
+      return classifyProviderError(
+        providerName,
+        error.response.status,
+        body,
+        typeof retryAfter === 'string' ? retryAfter : undefined,
+      );
+    }
+    return new NetworkError(`Network error: ${error.message}`);
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Retry-After is either delay-seconds or an HTTP date.
+ */
+function parseRetryAfter(header: string | undefined): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Read a streamed (responseType: 'stream') error body so it can be reported.
+ */
+export async function readStreamBody(stream: NodeJS.ReadableStream): Promise<string> {
+  let body = '';
+  for await (const chunk of stream) {
+    body += chunk.toString();
+  }
+  return body;
+}
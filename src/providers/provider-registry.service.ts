@@ -0,0 +1,132 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService, ProviderConfig } from '../config/config.service';
+import { ERROR_MESSAGES } from '../common/constants/app.constants';
+import { LlmProvider } from './llm-provider.interface';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider';
+import { OpenRouterProvider } from './openrouter.provider';
+import { OllamaProvider } from './ollama.provider';
+import { SimulatedProvider } from './simulated.provider';
+
+export interface ResolvedModel {
+  provider: LlmProvider;
+  model: string; // Model id as the provider expects it (routing prefix stripped)
+}
+
+/**
+ * Routes model ids to providers. Ids starting with a configured prefix
+ * (e.g. `ollama/llama3`) go to that provider; everything else goes to OpenRouter.
+ */
+@Injectable()
+export class ProviderRegistryService {
+  private readonly logger = new Logger(ProviderRegistryService.name);
+  private readonly defaultProvider: LlmProvider | null;
+  private readonly prefixedProviders = new Map<string, LlmProvider>();
+
+  constructor(private readonly configService: ConfigService) {
+    const openRouterApiKey = process.env.OPENROUTER_API_KEY;
+    const simulation = this.configService.get('simulation');
+    if (simulation.enabled && simulation.replace_openrouter) {
+      this.defaultProvider = new SimulatedProvider(simulation);
+      this.logger.warn('Simulation mode - all un-prefixed models are simulated, OpenRouter is not called');
+    } else {
+      this.defaultProvider = openRouterApiKey ? new OpenRouterProvider(openRouterApiKey) : null;
+    }
+
+    if (simulation.enabled) {
+      this.prefixedProviders.set(simulation.prefix, new SimulatedProvider(simulation, simulation.prefix));
+      this.logger.log(`Registered simulated provider for "${simulation.prefix}/" models`);
+    }
+
+    for (const providerConfig of this.configService.get('providers')) {
+      this.prefixedProviders.set(providerConfig.prefix, this.createProvider(providerConfig));
+      this.logger.log(
+        `Registered ${providerConfig.type} provider for "${providerConfig.prefix}/" models at ${providerConfig.base_url}`,
+      );
+    }
+
+    if (!this.defaultProvider) {
+      // Self-hosted only setups can run without OpenRouter
+      if (this.prefixedProviders.size === 0) {
+        throw new Error(ERROR_MESSAGES.API_KEY_MISSING);
+      }
+      this.logger.warn(
+        'OPENROUTER_API_KEY is not set - only prefixed (self-hosted) models are available',
+      );
+    }
+  }
+
+  private createProvider(providerConfig: ProviderConfig): LlmProvider {
+    const apiKey = providerConfig.api_key_env
+      ? process.env[providerConfig.api_key_env]
+      : undefined;
+
+    switch (providerConfig.type) {
+      case 'openrouter':
+        return new OpenRouterProvider(apiKey, providerConfig.base_url);
+      case 'ollama':
+        return new OllamaProvider(providerConfig.base_url);
+      case 'openai-compatible':
+        return new OpenAiCompatibleProvider(providerConfig.prefix, {
+          baseUrl: providerConfig.base_url,
+          apiKey,
+        });
+      default:
+        throw new Error(`Unknown provider type: ${(providerConfig as ProviderConfig).type}`);
+    }
+  }
+
+  resolve(modelId: string): ResolvedModel {
+    const separatorIndex = modelId.indexOf('/');
+    if (separatorIndex > 0) {
+      const provider = this.prefixedProviders.get(modelId.substring(0, separatorIndex));
+      if (provider) {
+        return { provider, model: modelId.substring(separatorIndex + 1) };
+      }
+    }
+
+    if (!this.defaultProvider) {
+      throw new Error(ERROR_MESSAGES.API_KEY_MISSING);
+    }
+    return { provider: this.defaultProvider, model: modelId };
+  }
+
+  /**
+   * Routing prefix a model id is served under ('' for the default OpenRouter provider)
+   */
+  getRoutePrefix(modelId: string): string {
+    const separatorIndex = modelId.indexOf('/');
+    if (separatorIndex > 0 && this.prefixedProviders.has(modelId.substring(0, separatorIndex))) {
+      return modelId.substring(0, separatorIndex);
+    }
+    return '';
+  }
+
+  /**
+   * Providers able to list their models, keyed by routing prefix ('' for the default)
+   */
+  getListableProviders(): Map<string, LlmProvider> {
+    const listable = new Map<string, LlmProvider>();
+    if (this.defaultProvider?.listModels) {
+      listable.set('', this.defaultProvider);
+    }
+    this.prefixedProviders.forEach((provider, prefix) => {
+      if (provider.listModels) {
+        listable.set(prefix, provider);
+      }
+    });
+    return listable;
+  }
+
+  /**
+   * Summary of the configured routing, for health/readiness reporting
+   */
+  describe(): Record<string, string> {
+    const routes: Record<string, string> = {
+      default: this.defaultProvider ? this.defaultProvider.name : 'missing',
+    };
+    this.prefixedProviders.forEach((provider, prefix) => {
+      routes[`${prefix}/`] = provider.name;
+    });
+    return routes;
+  }
+}
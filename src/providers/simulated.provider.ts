@@ -0,0 +1,251 @@
+import * as crypto from 'crypto';
+import { BUDGET_ESTIMATES } from '../common/constants/app.constants';
+import { sleep } from '../common/utils/sleep';
+import { SimulatedModelConfig, SimulationConfig } from '../config/config.service';
+import {
+  ChatCompletionOptions,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  LlmProvider,
+  TokenUsage,
+  ToolCall,
+} from './llm-provider.interface';
+import {
+  AuthError,
+  ContextLengthExceededError,
+  ProviderError,
+  ProviderTimeoutError,
+  RateLimitedError,
+  UpstreamServerError,
+} from './provider-errors';
+import { getMessageText } from './message-content';
+
+const DEFAULT_RESPONSE =
+  'Simulated answer from {{model}} (#{{hash}}).\n\n' +
+  'Regarding "{{prompt}}": this is a deterministic placeholder response. ' +
+  'The same model and prompt always produce the same text, so pipeline behaviour can be reproduced offline.';
+
+/**
+ * Offline provider returning deterministic templated answers with configurable
+ * latency and scripted failures per model id. No network access is involved.
+ */
+export class SimulatedProvider implements LlmProvider {
+  readonly name = 'Simulated';
+  private readonly callCounts = new Map<string, number>(); // For failure_count scripting
+
+  constructor(
+    private readonly config: SimulationConfig,
+    private readonly prefix?: string, // Routing prefix, so config entries can use full model ids
+  ) {}
+
+  async chatCompletion(
+    request: ChatCompletionRequest,
+    options: ChatCompletionOptions,
+  ): Promise<ChatCompletionResult> {
+    const modelConfig = this.getModelConfig(request.model);
+    const latencyMs = modelConfig.latency_ms ?? this.config.latency_ms;
+
+    if (latencyMs > options.timeoutMs) {
+      await sleep(options.timeoutMs, options.signal);
+      throw new ProviderTimeoutError(options.timeoutMs);
+    }
+
+    const failure = this.nextFailure(request.model, modelConfig);
+    if (failure === 'timeout') {
+      await sleep(options.timeoutMs, options.signal);
+      throw new ProviderTimeoutError(options.timeoutMs);
+    }
+    if (failure && failure !== 'empty') {
+      await sleep(latencyMs, options.signal);
+      throw this.createError(failure, modelConfig);
+    }
+
+    const toolCall = this.scriptedToolCall(request, modelConfig);
+    if (toolCall) {
+      await sleep(latencyMs, options.signal);
+      return { content: '', usage: this.estimateUsage(request, ''), toolCalls: [toolCall] };
+    }
+
+    const prompt = [...request.messages].reverse().find((message) => message.role === 'user');
+    const toolResults = request.messages
+      .filter((message) => message.role === 'tool')
+      .map((message) => getMessageText(message.content));
+    const promptText = getMessageText(prompt?.content || '');
+    const content =
+      failure === 'empty'
+        ? ''
+        : request.response_format
+          ? JSON.stringify(this.sampleJson(request.response_format.json_schema.schema, `${request.model}:${promptText}`))
+          : this.render(request.model, promptText, modelConfig, toolResults);
+
+    if (options.onToken && content) {
+      // Spread the words over the configured latency, like a real stream
+      const words = content.split(/(?<=\s)/);
+      const delayMs = latencyMs / words.length;
+      for (const word of words) {
+        await sleep(delayMs, options.signal);
+        options.onToken(word);
+      }
+    } else {
+      await sleep(latencyMs, options.signal);
+    }
+
+    return {
+      content,
+      usage: this.estimateUsage(request, content),
+    };
+  }
+
+  async generateImage(model: string, prompt: string): Promise<string> {
+    await sleep(this.getModelConfig(model).latency_ms ?? this.config.latency_ms);
+
+    const hue = parseInt(this.hash(`${model}:${prompt}`).substring(0, 2), 16) * 360 / 256;
+    const label = this.escapeXml(prompt.substring(0, 60));
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512">` +
+      `<rect width="512" height="512" fill="hsl(${Math.round(hue)}, 60%, 55%)"/>` +
+      `<text x="256" y="240" font-size="20" text-anchor="middle" fill="white">${this.escapeXml(model)}</text>` +
+      `<text x="256" y="280" font-size="14" text-anchor="middle" fill="white">${label}</text>` +
+      `</svg>`;
+    return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+  }
+
+  private getModelConfig(model: string): SimulatedModelConfig {
+    const fullId = this.prefix ? `${this.prefix}/${model}` : model;
+    return this.config.models[fullId] || this.config.models[model] || {};
+  }
+
+  /**
+   * Failure scripted for this call, if any. With failure_count only the first N calls fail.
+   */
+  private nextFailure(
+    model: string,
+    modelConfig: SimulatedModelConfig,
+  ): SimulatedModelConfig['failure'] | null {
+    const callNumber = (this.callCounts.get(model) || 0) + 1;
+    this.callCounts.set(model, callNumber);
+
+    if (!modelConfig.failure) {
+      return null;
+    }
+    if (modelConfig.failure_count !== undefined && callNumber > modelConfig.failure_count) {
+      return null;
+    }
+    return modelConfig.failure;
+  }
+
+  /**
+   * The configured tool call, when the tool is offered and hasn't been answered yet.
+   */
+  private scriptedToolCall(request: ChatCompletionRequest, modelConfig: SimulatedModelConfig): ToolCall | null {
+    const scripted = modelConfig.tool_call;
+    if (
+      !scripted ||
+      request.tool_choice === 'none' ||
+      !request.tools?.some((tool) => tool.function.name === scripted.name) ||
+      request.messages.some((message) => message.role === 'tool')
+    ) {
+      return null;
+    }
+
+    const args = JSON.stringify(scripted.arguments || {});
+    return {
+      id: `call_${this.hash(`${request.model}:${scripted.name}:${args}`).substring(0, 12)}`,
+      type: 'function',
+      function: { name: scripted.name, arguments: args },
+    };
+  }
+
+  private createError(
+    failure: SimulatedModelConfig['failure'],
+    modelConfig: SimulatedModelConfig,
+  ): ProviderError {
+    const message = `${this.name} API error: simulated ${failure}`;
+    switch (failure) {
+      case 'rate_limited':
+        return new RateLimitedError(
+          message,
+          modelConfig.retry_after_seconds !== undefined ? modelConfig.retry_after_seconds * 1000 : undefined,
+        );
+      case 'auth':
+        return new AuthError(message, 401);
+      case 'context_length_exceeded':
+        return new ContextLengthExceededError(message, 400);
+      default:
+        return new UpstreamServerError(message, 502);
+    }
+  }
+
+  private render(
+    model: string,
+    prompt: string,
+    modelConfig: SimulatedModelConfig,
+    toolResults: string[],
+  ): string {
+    const template = modelConfig.response || this.config.response || DEFAULT_RESPONSE;
+    return template
+      .replace(/\{\{model\}\}/g, this.prefix ? `${this.prefix}/${model}` : model)
+      .replace(/\{\{prompt\}\}/g, prompt.length > 200 ? `${prompt.substring(0, 200)}...` : prompt)
+      .replace(/\{\{hash\}\}/g, this.hash(`${model}:${prompt}`).substring(0, 8))
+      .replace(/\{\{tool_results\}\}/g, toolResults.join('; ') || 'no tool results');
+  }
+
+  /**
+   * Deterministic value conforming to (common subsets of) a JSON Schema. Enum
+   * picks and numbers vary with the seed, so different models can disagree.
+   */
+  private sampleJson(schema: Record<string, any>, seed: string): unknown {
+    const pick = parseInt(this.hash(seed).substring(0, 8), 16);
+    if (schema.const !== undefined) {
+      return schema.const;
+    }
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      return schema.enum[pick % schema.enum.length];
+    }
+
+    const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+    switch (type) {
+      case 'object':
+        return Object.fromEntries(
+          Object.entries<Record<string, any>>(schema.properties || {}).map(([key, property]) => [
+            key,
+            this.sampleJson(property, `${seed}.${key}`),
+          ]),
+        );
+      case 'array':
+        return [this.sampleJson(schema.items || {}, `${seed}[]`)];
+      case 'integer':
+        return (schema.minimum ?? 0) + (pick % 10);
+      case 'number':
+        return (schema.minimum ?? 0) + (pick % 1000) / 100;
+      case 'boolean':
+        return pick % 2 === 0;
+      case 'null':
+        return null;
+      default:
+        return `simulated ${seed.substring(seed.lastIndexOf('.') + 1)}`;
+    }
+  }
+
+  private estimateUsage(request: ChatCompletionRequest, content: string): TokenUsage {
+    const promptChars = request.messages.reduce(
+      (sum, message) => sum + getMessageText(message.content).length,
+      0,
+    );
+    const promptTokens = Math.ceil(promptChars / BUDGET_ESTIMATES.CHARS_PER_TOKEN);
+    const completionTokens = Math.ceil(content.length / BUDGET_ESTIMATES.CHARS_PER_TOKEN);
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  private escapeXml(value: string): string {
+    return value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+  }
+}
@@ -3,6 +3,14 @@ import { OpenRouterService } from '../openrouter/openrouter.service';
 import { ResearchService, ResearchContext } from './research.service';
 import { DebateService } from '../debate/debate.service';
 import { JudgeService } from '../judge/judge.service';
+import { PricingService } from '../usage/pricing.service';
+import { BudgetService } from '../usage/budget.service';
+import { Budget, BudgetReport } from '../usage/budget-guard';
+import { ConfigService } from '../config/config.service';
+import { UsageSummary } from '../usage/usage-tracker';
+import { RequestContext, RequestPriority } from '../common/context/request-context';
+import { CassetteService } from '../cassettes/cassette.service';
+import { CancelledError } from '../providers/provider-errors';
 
 export interface DeepResearchResult {
   finalAnswer: string;
@@ -14,6 +22,14 @@ export interface DeepResearchResult {
     answer: string;
     citations: string[];
   }>;
+  usage: UsageSummary;
+  budget?: BudgetReport; // Only when a budget was set
+}
+
+export interface DeepResearchOptions {
+  budget?: Budget;
+  priority?: RequestPriority; // 'background' for queued jobs, so interactive queries go first upstream
+  signal?: AbortSignal; // Aborts every outstanding model call and the remaining steps
 }
 
 @Injectable()
@@ -25,6 +41,10 @@ export class DeepResearchService {
     private readonly researchService: ResearchService,
     private readonly debateService: DebateService,
     private readonly judgeService: JudgeService,
+    private readonly pricingService: PricingService,
+    private readonly budgetService: BudgetService,
+    private readonly configService: ConfigService,
+    private readonly cassetteService: CassetteService,
   ) {}
 
   async performDeepResearch(
@@ -32,8 +52,24 @@ export class DeepResearchService {
     queryModels: Array<{ id: string; name: string; provider: string }>,
     judgeModel: { id: string; name: string; provider: string },
     jobId?: string,
+    options?: DeepResearchOptions,
   ): Promise<DeepResearchResult> {
     const requestId = jobId || `research-${Date.now()}`;
+    const context: RequestContext = {
+      requestId,
+      usage: this.pricingService.createTracker(),
+      priority: options?.priority || 'interactive',
+      signal: options?.signal,
+      recorder: this.cassetteService.startRecording({
+        requestId,
+        kind: 'deep_research',
+        prompt,
+        models: queryModels.map((model) => model.id),
+        judgeModel: judgeModel.id,
+        modelInfo: queryModels,
+        ...(options?.budget && { budget: options.budget }),
+      }),
+    };
     this.logger.log(`[${requestId}] ========== DEEP RESEARCH PIPELINE START ==========`);
     this.logger.log(`[${requestId}] Query: "${prompt}"`);
     this.logger.log(`[${requestId}] Models: ${queryModels.map((m) => m.id).join(', ')}`);
@@ -44,6 +80,7 @@ export class DeepResearchService {
     const researchStartTime = Date.now();
     const researchContext = await this.researchService.performResearch(prompt, 8, requestId);
     const researchLatency = Date.now() - researchStartTime;
+    this.throwIfCancelled(context);
     
     this.logger.log(`[${requestId}] Research completed in ${researchLatency}ms`);
     this.logger.log(`[${requestId}] Research results: ${researchContext.results.length} sources found`);
@@ -64,16 +101,36 @@ export class DeepResearchService {
     const researchPrompt = this.researchService.formatResearchForModels(researchContext);
     this.logger.log(`[${requestId}] Research prompt length: ${researchPrompt.length} characters`);
 
+    // Fit the council and debate to the budget now that the research context size is known
+    let councilModels = queryModels;
+    let debateRounds = this.configService.get('max_debate_rounds');
+    let skipJudge = false;
+    if (options?.budget) {
+      const fittedPlan = this.budgetService.fitToBudget(
+        { models: queryModels.map((m) => m.id), judgeModel: judgeModel.id, debateRounds, skipJudge },
+        prompt.length + researchPrompt.length,
+        options.budget,
+      );
+      councilModels = queryModels.filter((m) => fittedPlan.plan.models.includes(m.id));
+      debateRounds = fittedPlan.plan.debateRounds;
+      skipJudge = fittedPlan.plan.skipJudge;
+      context.budget = this.budgetService.createGuard(options.budget, context.usage, fittedPlan);
+      this.logger.log(
+        `[${requestId}] Budget plan: ~$${fittedPlan.estimate.costUsd.toFixed(4)}, ${councilModels.length} models, ${debateRounds} debate rounds${skipJudge ? ', judge skipped' : ''}`,
+      );
+    }
+
     // Step 3: Get initial answers from models with research context
     this.logger.log(`[${requestId}] Step 3/5: Getting initial model answers with research context...`);
     const modelsStartTime = Date.now();
     const initialAnswers = await this.getResearchedAnswers(
       prompt,
       researchContext,
-      queryModels,
-      requestId,
+      councilModels,
+      context,
     );
     const modelsLatency = Date.now() - modelsStartTime;
+    this.throwIfCancelled(context);
     
     this.logger.log(`[${requestId}] Model answers completed in ${modelsLatency}ms`);
     this.logger.log(`[${requestId}] Successful answers: ${initialAnswers.filter((a) => a.answer && a.answer.length > 0).length}/${initialAnswers.length}`);
@@ -101,28 +158,35 @@ export class DeepResearchService {
 
     this.logger.log(`[${requestId}] Starting debate with ${successfulAnswers.length} successful answers`);
     const debateResult = await this.debateService.conductIterativeDebate(
-      `${prompt}\n\n${researchPrompt}`,
+      prompt,
       successfulAnswers.map((a) => ({ model: a.model, answer: a.answer })),
+      { context, maxRounds: debateRounds, researchContext: researchPrompt },
     );
     this.logger.log(`[${requestId}] Debate completed: ${debateResult.debateRounds.length} rounds`);
+    this.throwIfCancelled(context);
 
     // Step 5: Judge merges with emphasis on research-backed answers
     this.logger.log(`[${requestId}] Step 5/5: Judge synthesizing research-backed answer...`);
     const judgeStartTime = Date.now();
     
-    // Include research context in the prompt for judge
-    const judgePrompt = researchContext.results.length > 0
-      ? `${prompt}\n\nResearch Context: ${researchContext.summary}`
-      : prompt;
-    
-    const finalAnswer = await this.judgeService.judgeAndMerge(
-      judgePrompt,
-      debateResult.finalAnswers,
-      debateResult.debateRounds,
-      judgeModel.id,
-      true, // isResearchMode = true
-    );
+    let finalAnswer: string;
+    if (skipJudge || context.budget?.isExceeded()) {
+      this.logger.warn(`[${requestId}] Budget reached - skipping judge, using the first debated answer`);
+      context.budget?.skip('judge');
+      finalAnswer = debateResult.finalAnswers[0].answer;
+    } else {
+      // The research context is sized to the judge's window alongside the answers
+      finalAnswer = await this.judgeService.judgeAndMerge(
+        prompt,
+        debateResult.finalAnswers,
+        debateResult.debateRounds,
+        judgeModel.id,
+        true, // isResearchMode = true
+        { context, ...(researchContext.results.length > 0 && { researchContext: researchPrompt }) },
+      );
+    }
     const judgeLatency = Date.now() - judgeStartTime;
+    this.throwIfCancelled(context);
     this.logger.log(`[${requestId}] Judge synthesis completed in ${judgeLatency}ms`);
 
     // Step 6: Extract citations from final answer and aggregate from all sources
@@ -138,6 +202,8 @@ export class DeepResearchService {
       this.logger.warn(`[${requestId}] ⚠️  WARNING: Research sources found (${researchContext.results.length}) but no citations extracted from final answer`);
     }
 
+    const usage = context.usage.getSummary();
+    this.logger.log(`[${requestId}] Usage: ${usage.totalTokens} tokens, $${usage.costUsd.toFixed(4)}`);
     this.logger.log(`[${requestId}] ========== DEEP RESEARCH PIPELINE COMPLETE ==========`);
 
     return {
@@ -146,6 +212,8 @@ export class DeepResearchService {
       researchContext,
       debateRounds: debateResult.debateRounds.length,
       modelAnswers: initialAnswers,
+      usage,
+      ...(context.budget && { budget: context.budget.getReport() }),
     };
   }
 
@@ -153,9 +221,9 @@ export class DeepResearchService {
     originalPrompt: string,
     researchContext: ResearchContext,
     queryModels: Array<{ id: string; name: string; provider: string }>,
-    jobId?: string,
+    context: RequestContext,
   ): Promise<Array<{ model: string; answer: string; citations: string[] }>> {
-    const logPrefix = jobId ? `[${jobId}]` : '';
+    const logPrefix = `[${context.requestId}]`;
     
     // Build system prompt based on whether research results exist
     let systemPrompt: string;
@@ -209,6 +277,8 @@ CRITICAL:
           {
             temperature: 0.3, // Lower temperature for more factual responses
             max_tokens: 3000,
+            context,
+            stage: 'query',
           },
         );
 
@@ -322,5 +392,12 @@ CRITICAL:
   ): string[] {
     return this.extractCitations(answer, researchContext);
   }
-}
 
+  // Stop between steps once the request is cancelled - failed calls alone don't end the pipeline
+  private throwIfCancelled(context: RequestContext): void {
+    if (context.signal?.aborted) {
+      this.logger.warn(`[${context.requestId}] Deep research cancelled`);
+      throw new CancelledError();
+    }
+  }
+}
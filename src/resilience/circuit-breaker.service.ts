@@ -0,0 +1,105 @@
+import { Injectable, Logger } from '@nestjs/common';
+import CircuitBreaker from 'opossum';
+import { ConfigService, CircuitBreakerConfig } from '../config/config.service';
+import { ProviderError, ProviderErrorCode } from '../providers/provider-errors';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  failures: number;
+  successes: number;
+  rejects: number; // Calls fast-failed while the circuit was open
+}
+
+/**
+ * Thrown instead of calling a model whose circuit is open.
+ */
+export class CircuitOpenError extends ProviderError {
+  constructor(readonly model: string) {
+    super('circuit_open', `circuit_open: ${model} is failing repeatedly, skipped until it recovers`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Failures caused by the request itself (or by waiting in our own queue) say nothing about the model's health
+const CLIENT_ERROR_CODES: ProviderErrorCode[] = [
+  'auth',
+  'context_length_exceeded',
+  'content_filtered',
+  'bad_request',
+  'cancelled',
+  'queue_timeout',
+];
+
+type ModelAction = () => Promise<unknown>;
+
+/**
+ * One opossum circuit breaker per model id, so a degraded model is fast-failed
+ * instead of making every request wait for its timeout.
+ */
+@Injectable()
+export class CircuitBreakerService {
+  private readonly logger = new Logger(CircuitBreakerService.name);
+  private readonly config: CircuitBreakerConfig;
+  private readonly breakers = new Map<string, CircuitBreaker<[ModelAction], unknown>>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = this.configService.get('circuit_breaker');
+  }
+
+  async execute<T>(model: string, action: () => Promise<T>): Promise<T> {
+    if (!this.config.enabled) {
+      return action();
+    }
+
+    try {
+      return (await this.getBreaker(model).fire(action)) as T;
+    } catch (error) {
+      if (error?.code === 'EOPENBREAKER') {
+        throw new CircuitOpenError(model);
+      }
+      throw error;
+    }
+  }
+
+  getStatuses(): Record<string, CircuitBreakerStatus> {
+    const statuses: Record<string, CircuitBreakerStatus> = {};
+    this.breakers.forEach((breaker, model) => {
+      statuses[model] = {
+        state: breaker.opened ? 'open' : breaker.halfOpen ? 'half_open' : 'closed',
+        failures: breaker.stats.failures,
+        successes: breaker.stats.successes,
+        rejects: breaker.stats.rejects,
+      };
+    });
+    return statuses;
+  }
+
+  private getBreaker(model: string): CircuitBreaker<[ModelAction], unknown> {
+    let breaker = this.breakers.get(model);
+    if (breaker) {
+      return breaker;
+    }
+
+    breaker = new CircuitBreaker((action: ModelAction) => action(), {
+      name: model,
+      timeout: false, // Calls already carry their own per-stage timeouts
+      errorThresholdPercentage: this.config.error_threshold_percentage,
+      volumeThreshold: this.config.volume_threshold,
+      rollingCountTimeout: this.config.rolling_window_ms,
+      resetTimeout: this.config.reset_timeout_ms,
+      errorFilter: (error: unknown) =>
+        error instanceof ProviderError && CLIENT_ERROR_CODES.includes(error.code),
+    });
+
+    breaker.on('open', () =>
+      this.logger.warn(`Circuit opened for ${model} - fast-failing calls for ${this.config.reset_timeout_ms}ms`),
+    );
+    breaker.on('halfOpen', () => this.logger.log(`Circuit half-open for ${model} - probing`));
+    breaker.on('close', () => this.logger.log(`Circuit closed for ${model} - model recovered`));
+
+    this.breakers.set(model, breaker);
+    return breaker;
+  }
+}
@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService, HedgingConfig } from '../config/config.service';
+
+/**
+ * Recent answer latencies per model, used to decide when a council call is slow
+ * enough to be hedged with a duplicate request.
+ */
+@Injectable()
+export class LatencyStatsService {
+  private readonly config: HedgingConfig;
+  private readonly samples = new Map<string, number[]>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = this.configService.get('hedging');
+  }
+
+  record(model: string, latencyMs: number): void {
+    const samples = this.samples.get(model) || [];
+    samples.push(latencyMs);
+    // Only the latest `window` samples count, so the threshold follows the model's current speed
+    if (samples.length > this.config.window) {
+      samples.shift();
+    }
+    this.samples.set(model, samples);
+  }
+
+  /**
+   * Latency percentile (nearest rank) of the model's recent answers, or null
+   * until there are enough samples to trust it.
+   */
+  getPercentile(model: string, percentile: number): number | null {
+    const samples = this.samples.get(model);
+    if (!samples || samples.length < this.config.min_samples) {
+      return null;
+    }
+
+    const sorted = [...samples].sort((a, b) => a - b);
+    const rank = Math.ceil((percentile / 100) * sorted.length);
+    return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+  }
+}
@@ -0,0 +1,39 @@
+import { RETRY_POLICY } from '../common/constants/app.constants';
+import { ProviderError, RateLimitedError } from '../providers/provider-errors';
+
+/**
+ * Decide whether a failed model call is worth retrying.
+ * Returns the delay before the next attempt, or null to give up.
+ */
+export function getRetryDelayMs(error: Error, attempt: number): number | null {
+  if (!(error instanceof ProviderError)) {
+    // Untyped failures (e.g. malformed payloads) keep the plain backoff
+    return backoffWithJitter(attempt);
+  }
+
+  switch (error.code) {
+    case 'rate_limited': {
+      const retryAfterMs = (error as RateLimitedError).retryAfterMs;
+      if (retryAfterMs === undefined) {
+        return backoffWithJitter(attempt);
+      }
+      return retryAfterMs <= RETRY_POLICY.MAX_RETRY_AFTER_MS ? retryAfterMs : null;
+    }
+    case 'timeout':
+    case 'upstream_error':
+    case 'network':
+    case 'empty_response':
+      return backoffWithJitter(attempt);
+    default:
+      // Auth, context length, content filter, bad request, open circuit, queue timeout, cancelled
+      return null;
+  }
+}
+
+/**
+ * Exponential backoff with jitter, so parallel calls don't retry in lockstep.
+ */
+function backoffWithJitter(attempt: number): number {
+  const ceiling = Math.min(RETRY_POLICY.MAX_DELAY_MS, RETRY_POLICY.BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
@@ -0,0 +1,196 @@
+import { RequestContext } from '../common/context/request-context';
+import { ConfigService, SchedulerConfig } from '../config/config.service';
+import { ProviderRegistryService } from '../providers/provider-registry.service';
+import { CancelledError } from '../providers/provider-errors';
+import { UsageTracker } from '../usage/usage-tracker';
+import { QueueTimeoutError, UpstreamSchedulerService } from './upstream-scheduler.service';
+
+describe('UpstreamSchedulerService', () => {
+  let started: string[];
+  let releases: Map<string, () => void>;
+
+  const createScheduler = (overrides: Partial<SchedulerConfig> = {}) => {
+    const config: SchedulerConfig = {
+      enabled: true,
+      max_concurrent_per_provider: 1,
+      max_concurrent_per_model: 10,
+      requests_per_minute: 0,
+      max_queue_ms: 10000,
+      log_wait_over_ms: 60000,
+      providers: {},
+      models: {},
+      ...overrides,
+    };
+    return new UpstreamSchedulerService(
+      { get: () => config } as unknown as ConfigService,
+      {
+        getRoutePrefix: (model: string) => (model.startsWith('local/') ? 'local' : ''),
+      } as unknown as ProviderRegistryService,
+    );
+  };
+
+  const contextFor = (requestId: string, extra: Partial<RequestContext> = {}) =>
+    ({ requestId, usage: {} as UsageTracker, ...extra }) as RequestContext;
+
+  // A call that records when it starts and runs until released by its name
+  const call = (name: string) => () =>
+    new Promise<string>((resolve) => {
+      started.push(name);
+      releases.set(name, () => resolve(name));
+    });
+
+  // Let admitted calls start, and finished ones free their slots
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  const release = async (name: string) => {
+    await settle();
+    releases.get(name)();
+    await settle();
+  };
+
+  beforeEach(() => {
+    started = [];
+    releases = new Map();
+  });
+
+  it('runs calls directly when disabled', async () => {
+    const scheduler = createScheduler({ enabled: false });
+
+    await expect(scheduler.schedule('model', undefined, async () => 42)).resolves.toEqual({ result: 42, queueMs: 0 });
+  });
+
+  it('caps concurrent calls per provider, not across providers', async () => {
+    const scheduler = createScheduler();
+
+    const first = scheduler.schedule('openai/a', contextFor('r1'), call('first'));
+    const second = scheduler.schedule('openai/b', contextFor('r1'), call('second'));
+    const local = scheduler.schedule('local/c', contextFor('r1'), call('local'));
+    await release('local');
+
+    expect(started).toEqual(['first', 'local']);
+    expect(scheduler.getStatuses()).toEqual({
+      default: { active: 1, queued: 1, requestsPerMinute: null, availableTokens: null },
+    });
+
+    await release('first');
+    expect(started).toEqual(['first', 'local', 'second']);
+    await release('second');
+    await expect(Promise.all([first, second, local])).resolves.toEqual([
+      expect.objectContaining({ result: 'first' }),
+      expect.objectContaining({ result: 'second' }),
+      expect.objectContaining({ result: 'local' }),
+    ]);
+  });
+
+  it('caps concurrent calls per model', async () => {
+    const scheduler = createScheduler({
+      max_concurrent_per_provider: 10,
+      models: { 'openai/a': { max_concurrent: 1 } },
+    });
+
+    scheduler.schedule('openai/a', contextFor('r1'), call('a1'));
+    scheduler.schedule('openai/a', contextFor('r1'), call('a2'));
+    scheduler.schedule('openai/b', contextFor('r1'), call('b1'));
+    await settle();
+
+    expect(started).toEqual(['a1', 'b1']);
+    await release('a1');
+    expect(started).toEqual(['a1', 'b1', 'a2']);
+    await release('a2');
+    await release('b1');
+  });
+
+  it('starts interactive calls before background ones', async () => {
+    const scheduler = createScheduler();
+
+    scheduler.schedule('model', contextFor('busy'), call('busy'));
+    scheduler.schedule('model', contextFor('job', { priority: 'background' }), call('background'));
+    scheduler.schedule('model', contextFor('user'), call('interactive'));
+    await release('busy');
+    await release('interactive');
+    await release('background');
+
+    expect(started).toEqual(['busy', 'interactive', 'background']);
+  });
+
+  it('favours the request with fewer calls in flight over arrival order', async () => {
+    const scheduler = createScheduler({ max_concurrent_per_provider: 2 });
+
+    // r1 holds both slots and queues two more calls before r2 arrives
+    scheduler.schedule('model', contextFor('r1'), call('r1-1'));
+    scheduler.schedule('model', contextFor('r1'), call('r1-2'));
+    scheduler.schedule('model', contextFor('r1'), call('r1-3'));
+    scheduler.schedule('model', contextFor('r1'), call('r1-4'));
+    scheduler.schedule('model', contextFor('r2'), call('r2-1'));
+
+    // r1 still has a call in flight, so r2 takes the freed slot
+    await release('r1-1');
+    expect(started).toEqual(['r1-1', 'r1-2', 'r2-1']);
+
+    // Both now have one call in flight: arrival order decides
+    await release('r2-1');
+    expect(started).toEqual(['r1-1', 'r1-2', 'r2-1', 'r1-3']);
+
+    await release('r1-2');
+    await release('r1-3');
+    await release('r1-4');
+  });
+
+  it('fails a call that waits longer than max_queue_ms', async () => {
+    jest.useFakeTimers();
+    try {
+      const scheduler = createScheduler({ max_queue_ms: 100 });
+      scheduler.schedule('model', contextFor('r1'), call('busy'));
+
+      const waiting = scheduler.schedule('model', contextFor('r2'), call('waiting'));
+      jest.advanceTimersByTime(100);
+
+      await expect(waiting).rejects.toBeInstanceOf(QueueTimeoutError);
+      expect(started).toEqual(['busy']);
+      expect(scheduler.getStatuses().default.queued).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('drops a queued call when its request is cancelled', async () => {
+    const scheduler = createScheduler();
+    const controller = new AbortController();
+    scheduler.schedule('model', contextFor('r1'), call('busy'));
+
+    const waiting = scheduler.schedule('model', contextFor('r2', { signal: controller.signal }), call('waiting'));
+    controller.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(CancelledError);
+    await release('busy');
+    expect(started).toEqual(['busy']);
+  });
+
+  it('holds calls over the requests-per-minute budget', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    try {
+      const scheduler = createScheduler({ max_concurrent_per_provider: 10, requests_per_minute: 2 });
+
+      scheduler.schedule('model', contextFor('r1'), call('one'));
+      scheduler.schedule('model', contextFor('r1'), call('two'));
+      const third = scheduler.schedule('model', contextFor('r1'), call('three'));
+      await settle();
+
+      expect(started).toEqual(['one', 'two']);
+      expect(scheduler.getStatuses().default).toEqual(
+        expect.objectContaining({ queued: 1, requestsPerMinute: 2, availableTokens: 0 }),
+      );
+
+      // Half a minute refills one token
+      now.mockReturnValue(30000);
+      await release('one');
+      expect(started).toEqual(['one', 'two', 'three']);
+
+      await release('two');
+      await release('three');
+      await third;
+    } finally {
+      now.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,268 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService, SchedulerConfig } from '../config/config.service';
+import { ProviderRegistryService } from '../providers/provider-registry.service';
+import { CancelledError, ProviderError } from '../providers/provider-errors';
+import { RequestContext, RequestPriority } from '../common/context/request-context';
+
+export class QueueTimeoutError extends ProviderError {
+  constructor(
+    readonly model: string,
+    waitedMs: number,
+  ) {
+    super('queue_timeout', `queue_timeout: ${model} waited ${waitedMs}ms for a free upstream slot`);
+    this.name = 'QueueTimeoutError';
+  }
+}
+
+export interface SchedulerStatus {
+  active: number;
+  queued: number;
+  requestsPerMinute: number | null; // null when not rate limited
+  availableTokens: number | null;
+}
+
+interface QueuedCall {
+  seq: number;
+  model: string;
+  provider: string;
+  requestId: string;
+  priority: number; // Lower runs first
+  enqueuedAt: number;
+  start: () => void;
+  abandon: (error: Error) => void;
+}
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  interactive: 0,
+  background: 1,
+};
+
+/**
+ * Requests-per-minute limit: holds up to one minute's worth of tokens and
+ * refills continuously, so short bursts pass but the average rate is capped.
+ */
+class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  constructor(readonly requestsPerMinute: number) {
+    this.tokens = requestsPerMinute;
+  }
+
+  available(): number {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.requestsPerMinute,
+      this.tokens + ((now - this.refilledAt) * this.requestsPerMinute) / 60000,
+    );
+    this.refilledAt = now;
+    return this.tokens;
+  }
+
+  take(): void {
+    this.tokens -= 1;
+  }
+
+  msUntilNextToken(): number {
+    return Math.max(0, Math.ceil(((1 - this.available()) * 60000) / this.requestsPerMinute));
+  }
+}
+
+/**
+ * Admission control in front of the provider layer. Caps concurrent calls per
+ * provider and per model, applies a requests-per-minute budget per provider, and
+ * dispatches waiting calls fairly: interactive requests before background jobs,
+ * then the request with the fewest calls in flight, then arrival order.
+ */
+@Injectable()
+export class UpstreamSchedulerService {
+  private readonly logger = new Logger(UpstreamSchedulerService.name);
+  private readonly config: SchedulerConfig;
+  private readonly queue: QueuedCall[] = [];
+  private readonly activeByProvider = new Map<string, number>();
+  private readonly activeByModel = new Map<string, number>();
+  private readonly activeByRequest = new Map<string, number>();
+  private readonly buckets = new Map<string, TokenBucket>();
+  private wakeTimer: NodeJS.Timeout | null = null;
+  private seq = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly providerRegistry: ProviderRegistryService,
+  ) {
+    this.config = this.configService.get('scheduler');
+  }
+
+  /**
+   * Run an upstream call once a slot is free. Resolves with the call's result and
+   * the time spent waiting in the queue; the call itself is not timed here.
+   */
+  async schedule<T>(
+    model: string,
+    context: RequestContext | undefined,
+    task: () => Promise<T>,
+  ): Promise<{ result: T; queueMs: number }> {
+    if (!this.config.enabled) {
+      return { result: await task(), queueMs: 0 };
+    }
+    if (context?.signal?.aborted) {
+      throw new CancelledError();
+    }
+
+    const signal = context?.signal;
+    const entry = await new Promise<QueuedCall>((resolve, reject) => {
+      let queueTimer: NodeJS.Timeout;
+      const onAbort = () => queued.abandon(new CancelledError());
+      const queued: QueuedCall = {
+        seq: ++this.seq,
+        model,
+        provider: this.getProviderKey(model),
+        requestId: context?.requestId || 'anonymous',
+        priority: PRIORITY_RANK[context?.priority || 'interactive'],
+        enqueuedAt: Date.now(),
+        start: () => {
+          clearTimeout(queueTimer);
+          signal?.removeEventListener('abort', onAbort);
+          resolve(queued);
+        },
+        abandon: (error) => {
+          clearTimeout(queueTimer);
+          signal?.removeEventListener('abort', onAbort);
+          const index = this.queue.indexOf(queued);
+          if (index >= 0) {
+            this.queue.splice(index, 1);
+          }
+          reject(error);
+        },
+      };
+
+      queueTimer = setTimeout(
+        () => queued.abandon(new QueueTimeoutError(model, Date.now() - queued.enqueuedAt)),
+        this.config.max_queue_ms,
+      );
+      signal?.addEventListener('abort', onAbort);
+      this.queue.push(queued);
+      this.dispatch();
+    });
+
+    const queueMs = Date.now() - entry.enqueuedAt;
+    if (queueMs >= this.config.log_wait_over_ms) {
+      this.logger.warn(
+        `[${entry.requestId}] ${model} waited ${queueMs}ms for an upstream slot (${this.queue.length} still queued)`,
+      );
+    }
+
+    try {
+      return { result: await task(), queueMs };
+    } finally {
+      this.adjust(this.activeByProvider, entry.provider, -1);
+      this.adjust(this.activeByModel, entry.model, -1);
+      this.adjust(this.activeByRequest, entry.requestId, -1);
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Per-provider load, for readiness reporting
+   */
+  getStatuses(): Record<string, SchedulerStatus> {
+    const providers = new Set([...this.activeByProvider.keys(), ...this.queue.map((call) => call.provider)]);
+    this.buckets.forEach((_, provider) => providers.add(provider));
+
+    const statuses: Record<string, SchedulerStatus> = {};
+    providers.forEach((provider) => {
+      const bucket = this.getBucket(provider);
+      statuses[provider] = {
+        active: this.activeByProvider.get(provider) || 0,
+        queued: this.queue.filter((call) => call.provider === provider).length,
+        requestsPerMinute: bucket ? bucket.requestsPerMinute : null,
+        availableTokens: bucket ? Math.floor(bucket.available()) : null,
+      };
+    });
+    return statuses;
+  }
+
+  /**
+   * Start every queued call that fits, best candidate first.
+   */
+  private dispatch(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+
+    for (;;) {
+      const next = this.queue
+        .filter((call) => this.canStart(call))
+        .sort(
+          (a, b) =>
+            a.priority - b.priority ||
+            (this.activeByRequest.get(a.requestId) || 0) - (this.activeByRequest.get(b.requestId) || 0) ||
+            a.seq - b.seq,
+        )[0];
+      if (!next) {
+        break;
+      }
+
+      this.queue.splice(this.queue.indexOf(next), 1);
+      this.getBucket(next.provider)?.take();
+      this.adjust(this.activeByProvider, next.provider, 1);
+      this.adjust(this.activeByModel, next.model, 1);
+      this.adjust(this.activeByRequest, next.requestId, 1);
+      next.start();
+    }
+
+    // Calls held back only by the rate limit need a wake-up; slot releases trigger dispatch themselves
+    const waitMs = this.queue
+      .map((call) => this.getBucket(call.provider))
+      .filter((bucket) => bucket && bucket.available() < 1)
+      .map((bucket) => bucket.msUntilNextToken());
+    if (waitMs.length > 0) {
+      this.wakeTimer = setTimeout(() => this.dispatch(), Math.max(10, Math.min(...waitMs)));
+    }
+  }
+
+  private canStart(call: QueuedCall): boolean {
+    const providerLimits = this.config.providers[call.provider] || {};
+    const modelLimit = this.config.models[call.model]?.max_concurrent ?? this.config.max_concurrent_per_model;
+    const bucket = this.getBucket(call.provider);
+
+    return (
+      (this.activeByProvider.get(call.provider) || 0) <
+        (providerLimits.max_concurrent ?? this.config.max_concurrent_per_provider) &&
+      (this.activeByModel.get(call.model) || 0) < modelLimit &&
+      (!bucket || bucket.available() >= 1)
+    );
+  }
+
+  private getBucket(provider: string): TokenBucket | null {
+    const requestsPerMinute =
+      this.config.providers[provider]?.requests_per_minute ?? this.config.requests_per_minute;
+    if (!requestsPerMinute) {
+      return null; // 0 disables the rate limit
+    }
+
+    let bucket = this.buckets.get(provider);
+    if (!bucket) {
+      bucket = new TokenBucket(requestsPerMinute);
+      this.buckets.set(provider, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Config key of the provider serving a model: its routing prefix, or 'default' for OpenRouter
+   */
+  private getProviderKey(model: string): string {
+    return this.providerRegistry.getRoutePrefix(model) || 'default';
+  }
+
+  private adjust(counts: Map<string, number>, key: string, delta: number): void {
+    const value = (counts.get(key) || 0) + delta;
+    if (value > 0) {
+      counts.set(key, value);
+    } else {
+      counts.delete(key);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { HttpException } from '@nestjs/common';
+import { ModelCatalogService } from '../catalog/model-catalog.service';
+import { OpenRouterService } from '../openrouter/openrouter.service';
+import { StructuredOutputService } from './structured-output.service';
+
+describe('StructuredOutputService', () => {
+  let service: StructuredOutputService;
+
+  beforeEach(() => {
+    service = new StructuredOutputService({} as ModelCatalogService, {} as OpenRouterService);
+  });
+
+  describe('compile', () => {
+    it('compiles the same $id schema for every request', () => {
+      const schema = {
+        $id: 'https://example.com/answer.json',
+        type: 'object',
+        properties: { answer: { type: 'string' } },
+        required: ['answer'],
+      };
+
+      const first = service.compile(schema);
+      const second = service.compile({ ...schema });
+
+      expect(first.validate({ answer: 'yes' })).toBe(true);
+      expect(second.validate({ answer: 'yes' })).toBe(true);
+      expect(second.validate({})).toBe(false);
+    });
+
+    it('rejects an invalid schema as a client error', () => {
+      expect(() => service.compile({ type: 'no-such-type' })).toThrow(HttpException);
+    });
+  });
+
+  describe('parse', () => {
+    const structured = () =>
+      service.compile({ type: 'object', properties: { n: { type: 'number' } }, required: ['n'] });
+
+    it('extracts JSON from code fences and prose', () => {
+      expect(service.parse('```json\n{"n": 1}\n```', structured())).toEqual({ value: { n: 1 } });
+      expect(service.parse('Here it is: {"n": 2} - done', structured())).toEqual({ value: { n: 2 } });
+    });
+
+    it('reports schema violations', () => {
+      expect(service.parse('{"n": "one"}', structured()).errors).toEqual(['/n must be number']);
+    });
+  });
+
+  describe('findDisagreements', () => {
+    it('returns nothing when the answers agree, whatever their key order', () => {
+      expect(
+        service.findDisagreements([
+          { model: 'a', value: { name: 'x', tags: [{ k: 1, v: 2 }] } },
+          { model: 'b', value: { tags: [{ v: 2, k: 1 }], name: 'x' } },
+        ]),
+      ).toEqual([]);
+    });
+
+    it('compares objects field by field and arrays as whole values', () => {
+      const disagreements = service.findDisagreements([
+        { model: 'a', value: { city: { name: 'Paris', country: 'FR' }, tags: [1, 2] } },
+        { model: 'b', value: { city: { name: 'Lyon', country: 'FR' }, tags: [2, 1] } },
+      ]);
+
+      expect(disagreements).toEqual([
+        {
+          path: 'city.name',
+          values: [
+            { model: 'a', value: 'Paris' },
+            { model: 'b', value: 'Lyon' },
+          ],
+        },
+        {
+          path: 'tags',
+          values: [
+            { model: 'a', value: [1, 2] },
+            { model: 'b', value: [2, 1] },
+          ],
+        },
+      ]);
+    });
+
+    it('counts a field only some answers include as a disagreement', () => {
+      expect(
+        service.findDisagreements([
+          { model: 'a', value: { name: 'x', note: 'n' } },
+          { model: 'b', value: { name: 'x' } },
+        ]),
+      ).toEqual([{ path: 'note', values: [{ model: 'a', value: 'n' }] }]);
+    });
+
+    it('compares scalar answers at the root', () => {
+      expect(
+        service.findDisagreements([
+          { model: 'a', value: 1 },
+          { model: 'b', value: 2 },
+        ]),
+      ).toEqual([
+        {
+          path: '(root)',
+          values: [
+            { model: 'a', value: 1 },
+            { model: 'b', value: 2 },
+          ],
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import Ajv, { ValidateFunction } from 'ajv';
+import { ModelCatalogService } from '../catalog/model-catalog.service';
+import { OpenRouterService } from '../openrouter/openrouter.service';
+import { RequestContext } from '../common/context/request-context';
+import { ResponseFormat } from '../providers/llm-provider.interface';
+
+export type JsonSchema = Record<string, unknown>;
+
+// A compiled schema, created once per request
+export interface StructuredSchema {
+  schema: JsonSchema;
+  validate: ValidateFunction;
+}
+
+export type StructuredParseResult = { value: unknown; errors?: undefined } | { value?: undefined; errors: string[] };
+
+// A field (dotted path) for which the council answers hold different values
+export interface FieldDisagreement {
+  path: string;
+  values: Array<{ model: string; value: unknown }>;
+}
+
+/**
+ * JSON Schema support for structured answers: prompting, validation, repair and
+ * comparison of the objects returned by the council.
+ */
+@Injectable()
+export class StructuredOutputService {
+  private readonly logger = new Logger(StructuredOutputService.name);
+
+  constructor(
+    private readonly modelCatalogService: ModelCatalogService,
+    private readonly openRouterService: OpenRouterService,
+  ) {}
+
+  /**
+   * Compile the caller's schema; an invalid schema is a client error.
+   */
+  compile(schema: JsonSchema): StructuredSchema {
+    // A fresh Ajv per schema: a shared one keeps every compiled schema and
+    // rejects a second schema with the same $id.
+    // Formats are not checked - an unknown format must not reject a whole schema
+    const ajv = new Ajv({ allErrors: true, strict: false, validateFormats: false });
+    try {
+      return { schema, validate: ajv.compile(schema) };
+    } catch (error) {
+      throw new HttpException(`Invalid responseSchema: ${error.message}`, HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  getInstructions(structured: StructuredSchema): string {
+    return (
+      'Respond ONLY with a single JSON value that conforms to this JSON Schema. ' +
+      'Do not add explanations or markdown code fences.\n\n' +
+      `JSON Schema:\n${JSON.stringify(structured.schema, null, 2)}`
+    );
+  }
+
+  /**
+   * response_format for the model, unless the catalog says it lacks JSON mode
+   * (the prompt instructions then carry the schema on their own).
+   */
+  getResponseFormat(model: string, structured: StructuredSchema): ResponseFormat | undefined {
+    const catalogModel = this.modelCatalogService.getCachedModel(model);
+    if (catalogModel && !this.modelCatalogService.hasCapability(catalogModel, 'json_mode')) {
+      return undefined;
+    }
+    return { type: 'json_schema', json_schema: { name: 'response', schema: structured.schema, strict: false } };
+  }
+
+  /**
+   * Extract the JSON value from a model answer (tolerating code fences and
+   * surrounding prose) and validate it against the schema.
+   */
+  parse(content: string, structured: StructuredSchema): StructuredParseResult {
+    let value: unknown;
+    try {
+      value = JSON.parse(this.extractJson(content));
+    } catch (error) {
+      return { errors: [`Answer is not valid JSON: ${error.message}`] };
+    }
+
+    if (!structured.validate(value)) {
+      return {
+        errors: (structured.validate.errors || []).map(
+          (error) => `${error.instancePath || '(root)'} ${error.message}`,
+        ),
+      };
+    }
+    return { value };
+  }
+
+  /**
+   * Parse a model answer; when it doesn't conform, ask the same model once to fix it.
+   */
+  async parseOrRepair(
+    model: string,
+    content: string,
+    structured: StructuredSchema,
+    context: RequestContext,
+    timeoutMs: number,
+  ): Promise<StructuredParseResult> {
+    const parsed = this.parse(content, structured);
+    if (!parsed.errors) {
+      return parsed;
+    }
+
+    this.logger.warn(`[${context.requestId}] ${model} returned non-conforming JSON, repairing: ${parsed.errors.join('; ')}`);
+    try {
+      const repaired = await this.openRouterService.callModel(
+        model,
+        [
+          { role: 'system', content: this.getInstructions(structured) },
+          {
+            role: 'user',
+            content:
+              `This answer does not conform to the schema:\n\n${content}\n\n` +
+              `Validation errors:\n${parsed.errors.map((error) => `- ${error}`).join('\n')}\n\n` +
+              'Return the corrected JSON only, keeping the original information.',
+          },
+        ],
+        timeoutMs,
+        {
+          temperature: 0,
+          context,
+          stage: 'repair',
+          response_format: this.getResponseFormat(model, structured),
+        },
+      );
+      return this.parse(repaired.response, structured);
+    } catch (error) {
+      return { errors: [...parsed.errors, `Repair failed: ${error.message}`] };
+    }
+  }
+
+  /**
+   * Fields whose values differ between answers. Objects are compared field by
+   * field; arrays and scalars are compared as whole values.
+   */
+  findDisagreements(answers: Array<{ model: string; value: unknown }>): FieldDisagreement[] {
+    const fields = new Map<string, Array<{ model: string; value: unknown }>>();
+    answers.forEach(({ model, value }) => {
+      this.flatten(value, '').forEach(([path, leaf]) => {
+        fields.set(path, [...(fields.get(path) || []), { model, value: leaf }]);
+      });
+    });
+
+    const disagreements: FieldDisagreement[] = [];
+    fields.forEach((values, path) => {
+      const distinct = new Set(values.map(({ value }) => this.canonicalize(value)));
+      // A field only some answers include counts as disagreement too
+      if (distinct.size > 1 || values.length < answers.length) {
+        disagreements.push({ path, values });
+      }
+    });
+    return disagreements;
+  }
+
+  private flatten(value: unknown, path: string): Array<[string, unknown]> {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      return [[path || '(root)', value]];
+    }
+    return Object.entries(value).flatMap(([key, child]) => this.flatten(child, path ? `${path}.${key}` : key));
+  }
+
+  private canonicalize(value: unknown): string {
+    if (value === null || typeof value !== 'object') {
+      return JSON.stringify(value);
+    }
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.canonicalize(item)).join(',')}]`;
+    }
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${this.canonicalize(value[key])}`)
+      .join(',')}}`;
+  }
+
+  private extractJson(content: string): string {
+    const trimmed = content.trim();
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    if (fenced) {
+      return fenced[1].trim();
+    }
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      return trimmed;
+    }
+    // Prose around the JSON: take the outermost object
+    const start = trimmed.indexOf('{');
+    const end = trimmed.lastIndexOf('}');
+    return start >= 0 && end > start ? trimmed.substring(start, end + 1) : trimmed;
+  }
+}
@@ -0,0 +1,145 @@
+import axios from 'axios';
+import { ToolsConfig } from '../config/config.service';
+import { ResearchService } from '../research/research.service';
+import { evaluateExpression } from './calculator';
+import { ServerTool } from './tool-registry.service';
+import { publicHostAgents } from '../common/utils/public-url';
+
+export function createCalculatorTool(): ServerTool {
+  return {
+    definition: {
+      type: 'function',
+      function: {
+        name: 'calculator',
+        description:
+          'Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, ' +
+          'sqrt, abs, ln, log, log2, exp, sin, cos, tan, floor, ceil, round, min, max, pow, pi and e.',
+        parameters: {
+          type: 'object',
+          properties: {
+            expression: { type: 'string', description: 'e.g. "(1.07 ^ 10) * 2500"' },
+          },
+          required: ['expression'],
+        },
+      },
+    },
+    execute: async (args) => {
+      const result = evaluateExpression(String(args.expression ?? ''));
+      if (!Number.isFinite(result)) {
+        throw new Error(`Expression does not evaluate to a finite number (${result})`);
+      }
+      return String(result);
+    },
+  };
+}
+
+export function createDateTimeTool(): ServerTool {
+  return {
+    definition: {
+      type: 'function',
+      function: {
+        name: 'current_datetime',
+        description: 'Get the current date and time, optionally in a given IANA time zone.',
+        parameters: {
+          type: 'object',
+          properties: {
+            timezone: { type: 'string', description: 'IANA time zone, e.g. "Europe/Berlin" (default UTC)' },
+          },
+        },
+      },
+    },
+    execute: async (args) => {
+      const now = new Date();
+      const timeZone = typeof args.timezone === 'string' && args.timezone ? args.timezone : 'UTC';
+      const local = new Intl.DateTimeFormat('en-US', {
+        timeZone, // Throws a RangeError for unknown zones, reported back to the model
+        dateStyle: 'full',
+        timeStyle: 'long',
+      }).format(now);
+      return `${local} (ISO ${now.toISOString()})`;
+    },
+  };
+}
+
+export function createWebSearchTool(researchService: ResearchService, config: ToolsConfig): ServerTool {
+  return {
+    definition: {
+      type: 'function',
+      function: {
+        name: 'web_search',
+        description: 'Search the web for current information. Returns titles, URLs and snippets.',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'Search query' },
+          },
+          required: ['query'],
+        },
+      },
+    },
+    execute: async (args, context) => {
+      const research = await researchService.performResearch(
+        String(args.query ?? ''),
+        config.search_max_results,
+        context.requestId,
+      );
+      if (research.results.length === 0) {
+        return research.summary || 'No results found.';
+      }
+      return research.results
+        .map((result, index) => `[${index + 1}] ${result.title}\n${result.url}\n${result.snippet}`)
+        .join('\n\n');
+    },
+  };
+}
+
+export function createFetchUrlTool(config: ToolsConfig): ServerTool {
+  return {
+    definition: {
+      type: 'function',
+      function: {
+        name: 'fetch_url',
+        description: 'Fetch a public web page or text file and return its text content.',
+        parameters: {
+          type: 'object',
+          properties: {
+            url: { type: 'string', description: 'Absolute http(s) URL' },
+          },
+          required: ['url'],
+        },
+      },
+    },
+    execute: async (args, context) => {
+      const url = new URL(String(args.url ?? ''));
+      // Models choose these URLs - keep them away from the internal network
+      const agents = await publicHostAgents(url);
+
+      const response = await axios.get<string>(url.toString(), {
+        ...agents,
+        responseType: 'text',
+        timeout: config.timeout_ms,
+        maxContentLength: config.fetch_max_bytes,
+        maxRedirects: 0, // A redirect could point at an internal host
+        signal: context.signal,
+        headers: { Accept: 'text/html, text/plain, application/json;q=0.9, */*;q=0.5' },
+      });
+
+      const contentType = String(response.headers['content-type'] || '');
+      return contentType.includes('html') ? htmlToText(response.data) : String(response.data);
+    },
+  };
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,120 @@
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+/**
+ * Evaluates an arithmetic expression without eval: numbers, + - * / % ^,
+ * parentheses, the functions above and the constants pi and e.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z_][a-z0-9_]*|\*\*|[-+*/%^(),]|\S/gi) || [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) {
+      throw new Error(`Expected "${token}" at token ${position}`);
+    }
+  };
+
+  // Precedence climbing: additive < multiplicative < unary < power < primary
+  const parseAdditive = (): number => {
+    let value = parseMultiplicative();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseMultiplicative() : value - parseMultiplicative();
+    }
+    return value;
+  };
+
+  const parseMultiplicative = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^' || peek() === '**') {
+      next();
+      return Math.pow(base, parseUnary()); // Right-associative
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) {
+      throw new Error('Unexpected end of expression');
+    }
+    if (token === '(') {
+      const value = parseAdditive();
+      expect(')');
+      return value;
+    }
+    if (/^(\d|\.\d)/.test(token)) {
+      return parseFloat(token);
+    }
+
+    const name = token.toLowerCase();
+    if (FUNCTIONS[name]) {
+      expect('(');
+      const args = [parseAdditive()];
+      while (peek() === ',') {
+        next();
+        args.push(parseAdditive());
+      }
+      expect(')');
+      return FUNCTIONS[name](...args);
+    }
+    if (name in CONSTANTS) {
+      return CONSTANTS[name];
+    }
+    throw new Error(`Unexpected token "${token}"`);
+  };
+
+  const result = parseAdditive();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected token "${tokens[position]}"`);
+  }
+  return result;
+}
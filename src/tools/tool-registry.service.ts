@@ -0,0 +1,101 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService, ToolsConfig } from '../config/config.service';
+import { ResearchService } from '../research/research.service';
+import { RequestContext } from '../common/context/request-context';
+import { ToolDefinition } from '../providers/llm-provider.interface';
+import {
+  createCalculatorTool,
+  createDateTimeTool,
+  createFetchUrlTool,
+  createWebSearchTool,
+} from './builtin-tools';
+
+/**
+ * A tool executed by this server on behalf of a model.
+ */
+export interface ServerTool {
+  definition: ToolDefinition;
+  execute(args: Record<string, unknown>, context: RequestContext): Promise<string>;
+}
+
+/**
+ * Server-side tools that requests can offer to their models by name.
+ */
+@Injectable()
+export class ToolRegistryService {
+  private readonly logger = new Logger(ToolRegistryService.name);
+  private readonly config: ToolsConfig;
+  private readonly tools = new Map<string, ServerTool>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly researchService: ResearchService,
+  ) {
+    this.config = this.configService.get('tools');
+
+    [
+      createCalculatorTool(),
+      createDateTimeTool(),
+      createWebSearchTool(this.researchService, this.config),
+      createFetchUrlTool(this.config),
+    ].forEach((tool) => this.register(tool));
+  }
+
+  register(tool: ServerTool): void {
+    this.tools.set(tool.definition.function.name, tool);
+    this.logger.log(`Registered tool ${tool.definition.function.name}`);
+  }
+
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map((tool) => tool.definition);
+  }
+
+  /**
+   * Definitions of the named tools; unknown names are a client error.
+   */
+  getDefinitions(names: string[]): ToolDefinition[] {
+    const unknown = names.filter((name) => !this.tools.has(name));
+    if (unknown.length > 0) {
+      throw new HttpException(
+        `Unknown tools: ${unknown.join(', ')}. Available tools: ${Array.from(this.tools.keys()).join(', ')}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return names.map((name) => this.tools.get(name)!.definition);
+  }
+
+  /**
+   * Run a tool with the model's JSON-encoded arguments. The output is truncated
+   * to max_result_chars; failures are thrown for the caller to report to the model.
+   */
+  async execute(name: string, encodedArgs: string, context: RequestContext): Promise<string> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    let args: Record<string, unknown>;
+    try {
+      args = encodedArgs ? JSON.parse(encodedArgs) : {};
+    } catch {
+      throw new Error(`Invalid JSON arguments: ${encodedArgs}`);
+    }
+
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Tool ${name} timed out after ${this.config.timeout_ms}ms`)),
+        this.config.timeout_ms,
+      );
+    });
+
+    try {
+      const output = await Promise.race([tool.execute(args, context), timeout]);
+      return output.length > this.config.max_result_chars
+        ? `${output.substring(0, this.config.max_result_chars)}\n[...truncated]`
+        : output;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { ModelCatalogService } from '../catalog/model-catalog.service';
+import { RequestContext } from '../common/context/request-context';
+import { ConfigService } from '../config/config.service';
+import { OpenRouterService } from '../openrouter/openrouter.service';
+import { UsageTracker } from '../usage/usage-tracker';
+import { ToolRegistryService } from './tool-registry.service';
+import { ToolRunnerService } from './tool-runner.service';
+
+describe('ToolRunnerService', () => {
+  const calculator = { type: 'function', function: { name: 'calculator', parameters: {} } };
+  const toolCall = { id: 'call-1', type: 'function', function: { name: 'calculator', arguments: '{"expression":"6*7"}' } };
+
+  let callModelWithRetry: jest.Mock;
+  let execute: jest.Mock;
+  let service: ToolRunnerService;
+  const context = { requestId: 'req-1', usage: {} as UsageTracker } as RequestContext;
+
+  beforeEach(() => {
+    callModelWithRetry = jest.fn();
+    execute = jest.fn().mockResolvedValue('42');
+    service = new ToolRunnerService(
+      { callModelWithRetry } as unknown as OpenRouterService,
+      { getDefinitions: () => [calculator], execute } as unknown as ToolRegistryService,
+      { getCachedModel: () => undefined } as unknown as ModelCatalogService,
+      { get: () => ({ max_steps: 2 }) } as unknown as ConfigService,
+    );
+  });
+
+  // Each step streams its text, then returns it with or without tool calls
+  const step = (text: string, toolCalls?: unknown[]) => async (_model, _messages, _timeout, _retries, options) => {
+    options.onToken?.(text);
+    return { response: text, latency_ms: 10, ...(toolCalls && { toolCalls }) };
+  };
+
+  it('runs the requested tools and feeds their results back', async () => {
+    callModelWithRetry
+      .mockImplementationOnce(step('', [toolCall]))
+      .mockImplementationOnce(step('The answer is 42.'));
+    const invocations = [];
+
+    const result = await service.callModelWithTools('model', [{ role: 'user', content: '6*7?' }], 1000, 0, {
+      context,
+      toolNames: ['calculator'],
+      onToolInvocation: (invocation) => invocations.push(invocation),
+    });
+
+    expect(result.response).toBe('The answer is 42.');
+    expect(result.latency_ms).toBeGreaterThanOrEqual(20);
+    expect(execute).toHaveBeenCalledWith('calculator', '{"expression":"6*7"}', context);
+    expect(invocations).toEqual([expect.objectContaining({ step: 1, tool: 'calculator', result: '42' })]);
+    const followUp = callModelWithRetry.mock.calls[1][1];
+    expect(followUp[followUp.length - 1]).toEqual({ role: 'tool', tool_call_id: 'call-1', content: '42' });
+  });
+
+  it('retracts text streamed before a tool call', async () => {
+    callModelWithRetry
+      .mockImplementationOnce(step('Let me calculate that.', [toolCall]))
+      .mockImplementationOnce(step('The answer is 42.'));
+    const stream: string[] = [];
+
+    const result = await service.callModelWithTools('model', [{ role: 'user', content: '6*7?' }], 1000, 0, {
+      context,
+      toolNames: ['calculator'],
+      onToken: (delta) => stream.push(delta),
+      onStreamReset: () => stream.splice(0),
+    });
+
+    expect(stream.join('')).toBe(result.response);
+  });
+
+  it('makes the model answer once the steps are used up', async () => {
+    callModelWithRetry.mockImplementation(step('', [toolCall]));
+
+    await service.callModelWithTools('model', [{ role: 'user', content: '6*7?' }], 1000, 0, {
+      context,
+      toolNames: ['calculator'],
+    });
+
+    expect(callModelWithRetry).toHaveBeenCalledTimes(3);
+    expect(callModelWithRetry.mock.calls[2][4].tool_choice).toBe('none');
+  });
+});
@@ -0,0 +1,173 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '../config/config.service';
+import { ChatMessage, ToolCall } from '../providers/llm-provider.interface';
+import { CallModelOptions, CallModelResult, OpenRouterService } from '../openrouter/openrouter.service';
+import { ModelCatalogService } from '../catalog/model-catalog.service';
+import { RequestContext } from '../common/context/request-context';
+import { UsageBreakdown } from '../usage/usage-tracker';
+import { ToolRegistryService } from './tool-registry.service';
+
+// One tool run on behalf of a model, as reported to clients
+export interface ToolInvocation {
+  step: number; // Tool-calling round (1-based) the model requested it in
+  tool: string;
+  arguments: string; // JSON-encoded, as produced by the model
+  result?: string;
+  error?: string;
+  latencyMs: number;
+}
+
+export interface ToolCallOptions extends Omit<CallModelOptions, 'tools' | 'tool_choice' | 'context'> {
+  context: RequestContext; // Tools record and replay through the request's cassette
+  toolNames: string[]; // Registry tools offered to the model
+  maxSteps?: number; // Overrides tools.max_steps
+  onToolInvocation?: (invocation: ToolInvocation) => void;
+  onStreamReset?: () => void; // Tokens streamed so far belonged to a step that ended in tool calls
+}
+
+export interface ToolCallResult extends CallModelResult {
+  toolInvocations: ToolInvocation[];
+}
+
+/**
+ * Runs the tool loop for one model: call the model with the tools offered, execute
+ * what it asks for, feed the results back and repeat until it answers or runs out of steps.
+ */
+@Injectable()
+export class ToolRunnerService {
+  private readonly logger = new Logger(ToolRunnerService.name);
+  private readonly maxSteps: number;
+
+  constructor(
+    private readonly openRouterService: OpenRouterService,
+    private readonly toolRegistry: ToolRegistryService,
+    private readonly modelCatalogService: ModelCatalogService,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxSteps = this.configService.get('tools').max_steps;
+  }
+
+  async callModelWithTools(
+    model: string,
+    messages: ChatMessage[],
+    timeoutMs: number,
+    maxRetries: number,
+    options: ToolCallOptions,
+  ): Promise<ToolCallResult> {
+    const { toolNames, maxSteps = this.maxSteps, onToolInvocation, onStreamReset, ...callOptions } = options;
+    const tools = this.toolRegistry.getDefinitions(toolNames);
+
+    if (tools.length === 0 || !this.supportsTools(model)) {
+      if (tools.length > 0) {
+        this.logger.warn(`[${options.context.requestId}] ${model} does not support tools - calling without them`);
+      }
+      const result = await this.openRouterService.callModelWithRetry(model, messages, timeoutMs, maxRetries, callOptions);
+      return { ...result, toolInvocations: [] };
+    }
+
+    const conversation = [...messages];
+    const toolInvocations: ToolInvocation[] = [];
+    let usage: UsageBreakdown | undefined;
+    let latencyMs = 0;
+    let queueMs = 0;
+    let cached = true; // Only when every step was served from the response cache
+    // Whether a step's text is the answer is only known once it ends: text streamed
+    // before tool calls is retracted, so the stream matches the returned response
+    let streamed = false;
+    const onToken =
+      callOptions.onToken &&
+      ((delta: string) => {
+        streamed = true;
+        callOptions.onToken(delta);
+      });
+
+    for (let step = 1; ; step++) {
+      // Once the steps are used up the model must answer with what it has
+      const finalStep = step > maxSteps;
+      const result = await this.openRouterService.callModelWithRetry(model, conversation, timeoutMs, maxRetries, {
+        ...callOptions,
+        onToken,
+        tools,
+        tool_choice: finalStep ? 'none' : 'auto',
+      });
+      usage = this.addUsage(usage, result.usage);
+      latencyMs += result.latency_ms;
+      queueMs += result.queue_ms || 0;
+      cached = cached && !!result.cached;
+
+      if (!result.toolCalls?.length || finalStep) {
+        return {
+          response: result.response,
+          latency_ms: latencyMs,
+          ...(queueMs > 0 && { queue_ms: queueMs }),
+          ...(usage && { usage }),
+          ...(cached && { cached }),
+          toolInvocations,
+        };
+      }
+
+      if (streamed) {
+        onStreamReset?.();
+        streamed = false;
+      }
+      conversation.push({ role: 'assistant', content: result.response, tool_calls: result.toolCalls });
+      const startTime = Date.now();
+      const invocations = await Promise.all(
+        result.toolCalls.map((toolCall) => this.runTool(toolCall, step, options.context)),
+      );
+      latencyMs += Date.now() - startTime;
+
+      invocations.forEach((invocation, index) => {
+        toolInvocations.push(invocation);
+        onToolInvocation?.(invocation);
+        conversation.push({
+          role: 'tool',
+          tool_call_id: result.toolCalls[index].id,
+          content: invocation.error ? `Error: ${invocation.error}` : invocation.result,
+        });
+      });
+    }
+  }
+
+  /**
+   * Tool support per the model catalog. Unknown models are offered the tools.
+   */
+  private supportsTools(model: string): boolean {
+    const catalogModel = this.modelCatalogService.getCachedModel(model);
+    return catalogModel ? this.modelCatalogService.hasCapability(catalogModel, 'tools') : true;
+  }
+
+  private async runTool(toolCall: ToolCall, step: number, context: RequestContext): Promise<ToolInvocation> {
+    const startTime = Date.now();
+    const { name, arguments: args } = toolCall.function;
+
+    try {
+      // Replays serve recorded tool output so the follow-up model calls match the cassette
+      const result = context.replay
+        ? await context.replay.playTool(name, args, context.signal)
+        : await this.toolRegistry.execute(name, args, context);
+      context.recorder?.recordTool(name, args, { result }, Date.now() - startTime);
+      return { step, tool: name, arguments: args, result, latencyMs: Date.now() - startTime };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`[${context.requestId}] Tool ${name} failed: ${message}`);
+      context.recorder?.recordTool(name, args, { error: message }, Date.now() - startTime);
+      return { step, tool: name, arguments: args, error: message, latencyMs: Date.now() - startTime };
+    }
+  }
+
+  private addUsage(total: UsageBreakdown | undefined, usage: UsageBreakdown | undefined): UsageBreakdown | undefined {
+    if (!usage) {
+      return total;
+    }
+    if (!total) {
+      return usage;
+    }
+    return {
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+      costUsd: total.costUsd + usage.costUsd,
+    };
+  }
+}
@@ -0,0 +1,13 @@
+import { Controller, Get } from '@nestjs/common';
+import { ToolDefinition } from '../providers/llm-provider.interface';
+import { ToolRegistryService } from './tool-registry.service';
+
+@Controller('api/v1/tools')
+export class ToolController {
+  constructor(private readonly toolRegistry: ToolRegistryService) {}
+
+  @Get()
+  listTools(): { tools: ToolDefinition[] } {
+    return { tools: this.toolRegistry.list() };
+  }
+}
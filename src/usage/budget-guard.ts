@@ -0,0 +1,64 @@
+import { UsageTracker } from './usage-tracker';
+
+export interface Budget {
+  maxUsd?: number;
+  maxTokens?: number;
+}
+
+export interface BudgetEstimate {
+  tokens: number;
+  costUsd: number;
+}
+
+export interface BudgetReport extends Budget {
+  estimatedTokens: number; // Estimate for the plan that actually ran
+  estimatedUsd: number;
+  spentTokens: number;
+  spentUsd: number;
+  exceeded: boolean; // Actual spend reached the budget
+  skippedStages: string[]; // e.g. 'debate_round_2', 'judge'
+  droppedModels: string[]; // Council models removed up front to fit the budget
+}
+
+/**
+ * Enforces a request budget against the actual spend recorded by the usage tracker
+ * and keeps track of which stages were skipped because of it.
+ */
+export class BudgetGuard {
+  private readonly skippedStages: string[] = [];
+
+  constructor(
+    readonly budget: Budget,
+    private readonly usage: UsageTracker,
+    private readonly estimate: BudgetEstimate,
+    private readonly droppedModels: string[] = [],
+  ) {}
+
+  isExceeded(): boolean {
+    const spent = this.usage.getSummary();
+    return (
+      (this.budget.maxUsd !== undefined && spent.costUsd >= this.budget.maxUsd) ||
+      (this.budget.maxTokens !== undefined && spent.totalTokens >= this.budget.maxTokens)
+    );
+  }
+
+  skip(stage: string): void {
+    if (!this.skippedStages.includes(stage)) {
+      this.skippedStages.push(stage);
+    }
+  }
+
+  getReport(): BudgetReport {
+    const spent = this.usage.getSummary();
+    return {
+      ...this.budget,
+      estimatedTokens: this.estimate.tokens,
+      estimatedUsd: this.estimate.costUsd,
+      spentTokens: spent.totalTokens,
+      spentUsd: spent.costUsd,
+      exceeded: this.isExceeded(),
+      skippedStages: [...this.skippedStages],
+      droppedModels: [...this.droppedModels],
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '../config/config.service';
+import { BUDGET_ESTIMATES } from '../common/constants/app.constants';
+import { PricingService } from './pricing.service';
+import { UsageTracker } from './usage-tracker';
+import { Budget, BudgetEstimate, BudgetGuard } from './budget-guard';
+
+export interface PipelinePlan {
+  models: string[];
+  judgeModel: string;
+  debateRounds: number;
+  skipJudge: boolean;
+}
+
+export interface FittedPlan {
+  plan: PipelinePlan;
+  estimate: BudgetEstimate;
+  droppedModels: string[];
+  skippedStages: string[];
+}
+
+@Injectable()
+export class BudgetService {
+  private readonly feedbackModel: string;
+
+  constructor(
+    private readonly pricingService: PricingService,
+    private readonly configService: ConfigService,
+  ) {
+    // Debate feedback is always given by the configured judge model
+    this.feedbackModel = this.configService.get('judge_model');
+  }
+
+  /**
+   * Estimate tokens and cost of running a plan. promptChars is the size of the
+   * prompt each council model receives (question plus any research context).
+   */
+  estimate(plan: PipelinePlan, promptChars: number): BudgetEstimate {
+    const promptTokens = Math.ceil(promptChars / BUDGET_ESTIMATES.CHARS_PER_TOKEN);
+    const modelCount = plan.models.length;
+    const total: BudgetEstimate = { tokens: 0, costUsd: 0 };
+
+    const addCall = (model: string, inputTokens: number, outputTokens: number) => {
+      const cost = this.estimateCall(model, inputTokens, outputTokens);
+      total.tokens += cost.tokens;
+      total.costUsd += cost.costUsd;
+    };
+
+    // Initial fan-out
+    plan.models.forEach((model) => addCall(model, promptTokens, BUDGET_ESTIMATES.ANSWER_TOKENS));
+
+    // Each debate round: one feedback call plus one refinement per model
+    for (let round = 1; round <= plan.debateRounds; round++) {
+      addCall(this.feedbackModel, modelCount * BUDGET_ESTIMATES.ANSWER_TOKENS, BUDGET_ESTIMATES.JUDGE_FEEDBACK_TOKENS);
+      plan.models.forEach((model) =>
+        addCall(
+          model,
+          promptTokens + modelCount * BUDGET_ESTIMATES.ANSWER_TOKENS + BUDGET_ESTIMATES.JUDGE_FEEDBACK_TOKENS,
+          BUDGET_ESTIMATES.ANSWER_TOKENS,
+        ),
+      );
+    }
+
+    if (!plan.skipJudge) {
+      addCall(
+        plan.judgeModel,
+        promptTokens +
+          modelCount * BUDGET_ESTIMATES.ANSWER_TOKENS +
+          plan.debateRounds * BUDGET_ESTIMATES.JUDGE_FEEDBACK_TOKENS,
+        BUDGET_ESTIMATES.JUDGE_ANSWER_TOKENS,
+      );
+    }
+
+    return total;
+  }
+
+  /**
+   * Shrink a plan until its estimate fits the budget: drop debate rounds first
+   * (last round first), then the most expensive council models (keeping at least
+   * one), and finally the judge.
+   */
+  fitToBudget(plan: PipelinePlan, promptChars: number, budget: Budget): FittedPlan {
+    const fitted: PipelinePlan = { ...plan, models: [...plan.models] };
+    const droppedModels: string[] = [];
+    const skippedStages: string[] = [];
+    let estimate = this.estimate(fitted, promptChars);
+
+    while (!this.fits(estimate, budget) && fitted.debateRounds > 0) {
+      skippedStages.push(`debate_round_${fitted.debateRounds}`);
+      fitted.debateRounds--;
+      estimate = this.estimate(fitted, promptChars);
+    }
+
+    const promptTokens = Math.ceil(promptChars / BUDGET_ESTIMATES.CHARS_PER_TOKEN);
+    while (!this.fits(estimate, budget) && fitted.models.length > 1) {
+      // On ties the model listed last is dropped, so the caller's ordering acts as priority
+      let mostExpensiveIndex = fitted.models.length - 1;
+      let highestCost = -1;
+      fitted.models.forEach((model, index) => {
+        const cost = this.estimateCall(model, promptTokens, BUDGET_ESTIMATES.ANSWER_TOKENS).costUsd;
+        if (cost > highestCost || (cost === highestCost && index > mostExpensiveIndex)) {
+          highestCost = cost;
+          mostExpensiveIndex = index;
+        }
+      });
+      droppedModels.push(...fitted.models.splice(mostExpensiveIndex, 1));
+      estimate = this.estimate(fitted, promptChars);
+    }
+
+    if (!this.fits(estimate, budget) && !fitted.skipJudge) {
+      skippedStages.push('judge');
+      fitted.skipJudge = true;
+      estimate = this.estimate(fitted, promptChars);
+    }
+
+    return { plan: fitted, estimate, droppedModels, skippedStages };
+  }
+
+  createGuard(budget: Budget, usage: UsageTracker, fittedPlan: FittedPlan): BudgetGuard {
+    const guard = new BudgetGuard(budget, usage, fittedPlan.estimate, fittedPlan.droppedModels);
+    fittedPlan.skippedStages.forEach((stage) => guard.skip(stage));
+    return guard;
+  }
+
+  private fits(estimate: BudgetEstimate, budget: Budget): boolean {
+    return (
+      (budget.maxUsd === undefined || estimate.costUsd <= budget.maxUsd) &&
+      (budget.maxTokens === undefined || estimate.tokens <= budget.maxTokens)
+    );
+  }
+
+  private estimateCall(model: string, inputTokens: number, outputTokens: number): BudgetEstimate {
+    const breakdown = this.pricingService.calculate(model, {
+      prompt_tokens: inputTokens,
+      completion_tokens: outputTokens,
+      total_tokens: inputTokens + outputTokens,
+    });
+    return { tokens: breakdown.totalTokens, costUsd: breakdown.costUsd };
+  }
+}
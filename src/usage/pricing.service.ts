@@ -0,0 +1,49 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService, ModelPricing } from '../config/config.service';
+import { TokenUsage } from '../providers/llm-provider.interface';
+import { UsageBreakdown, UsageTracker } from './usage-tracker';
+import { ModelCatalogService } from '../catalog/model-catalog.service';
+
+@Injectable()
+export class PricingService {
+  private readonly logger = new Logger(PricingService.name);
+  private readonly priceTable: Record<string, ModelPricing>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly modelCatalogService: ModelCatalogService,
+  ) {
+    this.priceTable = this.configService.get('pricing');
+    this.logger.log(`Loaded pricing for ${Object.keys(this.priceTable).length} models`);
+  }
+
+  /**
+   * Configured prices win; otherwise the model catalog's listed prices are used.
+   */
+  getPricing(model: string): ModelPricing | null {
+    return this.priceTable[model] || this.modelCatalogService.getCachedModel(model)?.pricing || null;
+  }
+
+  /**
+   * Dollar cost of a single call. Models missing from the price table cost 0
+   * and are reported as unpriced by the tracker.
+   */
+  calculate(model: string, usage: TokenUsage): UsageBreakdown {
+    const pricing = this.getPricing(model);
+    const costUsd = pricing
+      ? (usage.prompt_tokens * pricing.prompt + usage.completion_tokens * pricing.completion) /
+        1_000_000
+      : 0;
+
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens,
+      costUsd,
+    };
+  }
+
+  createTracker(): UsageTracker {
+    return new UsageTracker(this);
+  }
+}
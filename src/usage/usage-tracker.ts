@@ -0,0 +1,85 @@
+import { TokenUsage } from '../providers/llm-provider.interface';
+import type { PricingService } from './pricing.service';
+
+export type CallStage =
+  | 'attachments'
+  | 'query'
+  | 'repair'
+  | 'summarize'
+  | 'debate'
+  | 'judge_feedback'
+  | 'consensus'
+  | 'judge';
+
+export interface UsageBreakdown {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageCallRecord extends UsageBreakdown {
+  stage: CallStage;
+  model: string;
+  round?: number; // Debate round for 'debate' and 'judge_feedback' calls
+  priced: boolean; // false when the model is missing from the price table
+}
+
+export interface UsageSummary extends UsageBreakdown {
+  byStage: Partial<Record<CallStage, UsageBreakdown>>;
+  calls: UsageCallRecord[];
+  unpricedModels: string[];
+}
+
+/**
+ * Collects token usage and cost for every model call made while serving one request.
+ */
+export class UsageTracker {
+  private readonly calls: UsageCallRecord[] = [];
+
+  constructor(private readonly pricingService: PricingService) {}
+
+  record(stage: CallStage, model: string, usage: TokenUsage, round?: number): UsageCallRecord {
+    const callRecord: UsageCallRecord = {
+      stage,
+      model,
+      ...(round !== undefined && { round }),
+      ...this.pricingService.calculate(model, usage),
+      priced: this.pricingService.getPricing(model) !== null,
+    };
+    this.calls.push(callRecord);
+    return callRecord;
+  }
+
+  getSummary(): UsageSummary {
+    const byStage: Partial<Record<CallStage, UsageBreakdown>> = {};
+    const unpricedModels = new Set<string>();
+
+    for (const call of this.calls) {
+      byStage[call.stage] = addBreakdowns(byStage[call.stage] || emptyBreakdown(), call);
+      if (!call.priced) {
+        unpricedModels.add(call.model);
+      }
+    }
+
+    return {
+      ...this.calls.reduce<UsageBreakdown>((total, call) => addBreakdowns(total, call), emptyBreakdown()),
+      byStage,
+      calls: [...this.calls],
+      unpricedModels: Array.from(unpricedModels),
+    };
+  }
+}
+
+function emptyBreakdown(): UsageBreakdown {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addBreakdowns(a: UsageBreakdown, b: UsageBreakdown): UsageBreakdown {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    costUsd: a.costUsd + b.costUsd,
+  };
+}